@@ -0,0 +1,12 @@
+// Times incremental vs full river recomputation (see src/sim/riversBench.ts).
+// Usage: npm run bench:rivers [-- size dabs]
+import { createServer } from "vite";
+
+const [size = 1024, dabs = 40] = process.argv.slice(2).map(Number);
+const server = await createServer({ appType: "custom", logLevel: "error", server: { middlewareMode: true } });
+try {
+  const { benchRivers } = await server.ssrLoadModule("/src/sim/riversBench.ts");
+  console.table([benchRivers(size, dabs)]);
+} finally {
+  await server.close();
+}
@@ -1,13 +1,16 @@
 import { useState, useCallback } from "react";
 import PixiCanvas from "./PixiCanvas";
 import { LeftPanel } from "./components/panels";
-import { ProgressHud, FpsHud } from "./components/hud";
+import { ProgressHud, FpsHud, KoppenLegend, PlanetPreview } from "./components/hud";
 import { useUIStore } from "./state/store";
+import type { Fields } from "./model/types";
 
 export default function App() {
-  const { params, setParams, seed, setSeed } = useUIStore();
+  const { params, setParams, seed, setSeed, overlays } = useUIStore();
   const [open, setOpen] = useState(true);
   const [progress, setProgress] = useState<{phase?: string; pct?: number}>({});
+  const [fields, setFields] = useState<Fields | null>(null); // latest result, planet mode only
+  const sphere = params.planet.mode === "sphere";
 
   const reseed = useCallback(
     () => setSeed(Math.floor(Math.random() * 1e9)),
@@ -19,6 +22,7 @@ export default function App() {
       <PixiCanvas
         className="pixi-fill"
         onProgress={(phase, pct) => setProgress({ phase, pct })}
+        onFields={(f) => { if (useUIStore.getState().params.planet.mode === "sphere") setFields(f); }}
       />
 
       <LeftPanel open={open} onToggle={() => setOpen(!open)} onReseed={reseed} />
@@ -26,6 +30,8 @@ export default function App() {
       <div className="hud" style={{ position: "absolute", top: 12, right: 12, display: "grid", gap: 8 }}>
         <FpsHud />
         <ProgressHud phase={progress.phase} pct={progress.pct} />
+        {overlays.koppen && <KoppenLegend />}
+        {sphere && <PlanetPreview fields={fields} size={params.size} seed={seed} seaLevel={params.climate.seaLevel} />}
         <button className="hud-btn" onClick={() => setOpen((v) => !v)}>
           {open ? "Hide (T)" : "Show (T)"}
         </button>
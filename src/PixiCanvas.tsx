@@ -3,15 +3,17 @@ import { useEffect, useMemo, useRef } from "react";
 import { createPixiApp } from "./pixi/app";
 import { createWorkerBridge, type WorkerBridge } from "./sim/workerBridge";
 import { attachBrushHandlers } from "./pixi/interactions";
+import type { OverlayKind } from "./pixi/stage";
 import { useUIStore } from "./state/store";
-import type { Brush, SimParams } from "./model/types";
+import type { Brush, Fields, SimParams } from "./model/types";
 
 type Props = {
   className?: string;
   onProgress?: (phase: string, pct: number) => void;
+  onFields?: (fields: Fields) => void;
 };
 
-export default function PixiCanvas({ className, onProgress }: Props) {
+export default function PixiCanvas({ className, onProgress, onFields }: Props) {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const bridgeRef = useRef<WorkerBridge | null>(null);
   const destroyRef = useRef<() => void>(() => {});
@@ -19,6 +21,11 @@ export default function PixiCanvas({ className, onProgress }: Props) {
   const seed = useUIStore((s) => s.seed);
   const params = useUIStore((s) => s.params);
   const brush = useUIStore((s) => s.brush);
+  const overlays = useUIStore((s) => s.overlays);
+  const month = useUIStore((s) => s.month);
+  const biomeRules = useUIStore((s) => s.biomeRules);
+  const historyCommand = useUIStore((s) => s.historyCommand);
+  const stamps = useUIStore((s) => s.stamps);
 
   const brushGetter = useMemo(() => {
     return () => (useUIStore.getState().brush as Brush);
@@ -31,68 +38,40 @@ export default function PixiCanvas({ className, onProgress }: Props) {
     let disposed = false;
 
     (async () => {
+      // Wheel zoom and right/middle-drag pan come with the app (cameraControl.ts)
       const { stage, destroy } = await createPixiApp(canvas, params.size);
       destroyRef.current = () => destroy();
-
-      // zoom (wheel) + pan (RMB drag) handlers
-      const onWheel = (e: WheelEvent) => {
-        e.preventDefault();
-        const factor = e.deltaY < 0 ? 1.1 : 0.9;
-        stage.zoomAt(e.clientX, e.clientY, factor);
-      };
-      canvas.addEventListener("wheel", onWheel, { passive: false });
-
-      let panning = false;
-      let lastX = 0, lastY = 0;
-
-      const onPointerDown = (e: PointerEvent) => {
-        if (e.button === 2) { // right mouse
-          panning = true;
-          lastX = e.clientX; lastY = e.clientY;
-        }
-      };
-      const onPointerMove = (e: PointerEvent) => {
-        if (!panning) return;
-        const dx = e.clientX - lastX;
-        const dy = e.clientY - lastY;
-        lastX = e.clientX; lastY = e.clientY;
-        stage.panBy(dx, dy);
-      };
-      const onPointerUp = () => { panning = false; };
-      const onContextMenu = (e: MouseEvent) => e.preventDefault();
-
-      canvas.addEventListener("pointerdown", onPointerDown);
-      window.addEventListener("pointermove", onPointerMove);
-      window.addEventListener("pointerup", onPointerUp);
-      canvas.addEventListener("contextmenu", onContextMenu);
-
-      // extend existing destroy to also remove listeners
-      const prevDestroy = destroyRef.current;
-      destroyRef.current = () => {
-        canvas.removeEventListener("wheel", onWheel as any);
-        canvas.removeEventListener("pointerdown", onPointerDown as any);
-        window.removeEventListener("pointermove", onPointerMove as any);
-        window.removeEventListener("pointerup", onPointerUp as any);
-        canvas.removeEventListener("contextmenu", onContextMenu as any);
-        prevDestroy?.();
-      };
       // Create the sim bridge and initialize
       const bridge = createWorkerBridge(stage, params.size, {
         onProgress: (phase, pct) => onProgress?.(phase, pct),
+        onFields: (fields) => onFields?.(fields),
+        onHistory: (history) => useUIStore.getState().setHistory(history),
         rafCoalesce: true,
       });
       bridgeRef.current = bridge;
+      for (const [kind, on] of Object.entries(useUIStore.getState().overlays)) {
+        bridge.setOverlay(kind as OverlayKind, on);
+      }
+      bridge.setMonth(useUIStore.getState().month);
+      bridge.setBiomeRules(useUIStore.getState().biomeRules);
+      bridge.setStamps(useUIStore.getState().stamps);
 
       // Kick off the simulation with current seed/params
       bridge.init(seed, params);
 
-      // Brush interactions
-      attachBrushHandlers(
+      // Brush interactions (left-drag)
+      const detachBrush = attachBrushHandlers(
         canvas,
-        (x, y, b) => bridge.brush(x, y, b),
+        stage,
+        (dabs, b) => bridge.brush(dabs, b),
         brushGetter,
-        params.size
+        () => bridge.endStroke()
       );
+      const prevDestroy = destroyRef.current;
+      destroyRef.current = () => {
+        detachBrush();
+        prevDestroy?.();
+      };
     })();
 
     return () => {
@@ -122,6 +101,46 @@ export default function PixiCanvas({ className, onProgress }: Props) {
 
   useEffect(() => {}, [brush]);
 
+  useEffect(() => {
+    const bridge = bridgeRef.current;
+    if (!bridge) return;
+    for (const [kind, on] of Object.entries(overlays)) bridge.setOverlay(kind as OverlayKind, on);
+  }, [overlays]);
+
+  useEffect(() => {
+    bridgeRef.current?.setMonth(month);
+  }, [month]);
+
+  useEffect(() => {
+    bridgeRef.current?.setBiomeRules(biomeRules);
+  }, [biomeRules]);
+
+  useEffect(() => {
+    bridgeRef.current?.setStamps(stamps);
+  }, [stamps]);
+
+  useEffect(() => {
+    if (!historyCommand) return;
+    if (historyCommand.op === "undo") bridgeRef.current?.undo();
+    else bridgeRef.current?.redo();
+  }, [historyCommand]);
+
+  // Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redo, unless typing in a field
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const t = e.target as HTMLElement | null;
+      if (t && (t.tagName === "INPUT" || t.tagName === "TEXTAREA" || t.tagName === "SELECT")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) useUIStore.getState().undo();
+      else if ((key === "z" && e.shiftKey) || key === "y") useUIStore.getState().redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
   return (
     <canvas
       ref={canvasRef}
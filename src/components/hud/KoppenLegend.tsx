@@ -0,0 +1,36 @@
+import React from "react";
+import { Koppen, KOPPEN_INFO } from "../../model/constants";
+
+const CLASSES = Object.values(Koppen).filter((k) => k !== Koppen.None);
+
+export default function KoppenLegend() {
+  return (
+    <div style={wrap}>
+      <div style={title}>Köppen-Geiger</div>
+      <div style={grid}>
+        {CLASSES.map((k) => {
+          const { code, name, color } = KOPPEN_INFO[k];
+          return (
+            <div key={k} style={item} title={name}>
+              <span style={{ ...swatch, background: `rgb(${color.join(",")})` }} />
+              <span>{code}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+const wrap: React.CSSProperties = {
+  background: "rgba(0,0,0,0.5)",
+  border: "1px solid rgba(255,255,255,0.08)",
+  borderRadius: 8,
+  padding: 8,
+  color: "#e5e7eb",
+  fontSize: 12,
+};
+const title: React.CSSProperties = { color: "#9ca3af", textTransform: "uppercase", letterSpacing: ".05em", marginBottom: 6 };
+const grid: React.CSSProperties = { display: "grid", gridTemplateColumns: "repeat(3, auto)", gap: "4px 10px" };
+const item: React.CSSProperties = { display: "flex", alignItems: "center", gap: 6 };
+const swatch: React.CSSProperties = { width: 12, height: 12, borderRadius: 2, display: "inline-block" };
@@ -0,0 +1,95 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { Fields } from "../../model/types";
+import { terrainRGBA } from "../../pixi/textures";
+import { projectEquirectangular, projectGlobe, projectMollweide, type Projection } from "../../pixi/projections";
+
+type Props = { fields: Fields | null; size: number; seed: number; seaLevel: number };
+
+const W = 320;
+const REFRESH_MS = 250; // brush results arrive every frame; recolouring the whole map that often stalls painting
+
+/**
+ * Planet-mode preview of the equirectangular map: a globe you can drag to
+ * rotate, or a flat equirectangular / Mollweide map.
+ */
+export default function PlanetPreview({ fields, size, seed, seaLevel }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [projection, setProjection] = useState<Projection>("globe");
+  const [view, setView] = useState({ lon: 0, lat: 20 });
+  const drag = useRef<{ x: number; y: number } | null>(null);
+
+  // Follow `fields` at most every REFRESH_MS; the latest one always lands
+  const [shown, setShown] = useState(fields);
+  const lastShown = useRef(0);
+  useEffect(() => {
+    const show = () => { lastShown.current = performance.now(); setShown(fields); };
+    const t = setTimeout(show, Math.max(0, lastShown.current + REFRESH_MS - performance.now()));
+    return () => clearTimeout(t);
+  }, [fields]);
+
+  // Colors only change with the fields; rotating just reprojects them
+  const colors = useMemo(
+    () => (shown && shown.height.length === size * size
+      ? terrainRGBA(shown.height, size, seed, { seaLevel, wrap: "x", lakes: shown.lakes, temperature: shown.temperature, ice: shown.ice })
+      : null),
+    [shown, size, seed, seaLevel]
+  );
+
+  const h = projection === "globe" ? W : W / 2;
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || !colors) return;
+    const img = ctx.createImageData(W, h);
+    if (projection === "globe") projectGlobe(colors, size, img.data, W, h, view.lon, view.lat);
+    else if (projection === "mollweide") projectMollweide(colors, size, img.data, W, h);
+    else projectEquirectangular(colors, size, img.data, W, h);
+    ctx.putImageData(img, 0, 0);
+  }, [colors, size, projection, view, h]);
+
+  function onPointerMove(e: React.PointerEvent) {
+    if (!drag.current) return;
+    const dx = e.clientX - drag.current.x, dy = e.clientY - drag.current.y;
+    drag.current = { x: e.clientX, y: e.clientY };
+    setView((v) => ({ lon: v.lon - dx * 0.5, lat: Math.max(-90, Math.min(90, v.lat + dy * 0.5)) }));
+  }
+
+  return (
+    <div style={wrap}>
+      <div style={row}>
+        <span style={label}>Planet</span>
+        <select style={select} value={projection} onChange={(e) => setProjection(e.target.value as Projection)}>
+          <option value="globe">globe</option>
+          <option value="equirectangular">equirectangular</option>
+          <option value="mollweide">Mollweide</option>
+        </select>
+      </div>
+      <canvas
+        ref={canvasRef}
+        width={W}
+        height={h}
+        style={{ display: "block", cursor: projection === "globe" ? "grab" : "default" }}
+        onPointerDown={(e) => {
+          if (projection !== "globe") return;
+          drag.current = { x: e.clientX, y: e.clientY };
+          e.currentTarget.setPointerCapture(e.pointerId);
+        }}
+        onPointerMove={onPointerMove}
+        onPointerUp={() => { drag.current = null; }}
+      />
+    </div>
+  );
+}
+
+const wrap: React.CSSProperties = {
+  background: "rgba(0,0,0,0.5)",
+  border: "1px solid rgba(255,255,255,0.08)",
+  borderRadius: 8,
+  padding: 8,
+  color: "#e5e7eb",
+};
+const row: React.CSSProperties = { display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 6 };
+const label: React.CSSProperties = { color: "#9ca3af", fontSize: 12, textTransform: "uppercase", letterSpacing: ".05em" };
+const select: React.CSSProperties = {
+  color: "#e5e7eb", background: "transparent", border: "1px solid rgba(255,255,255,0.08)", borderRadius: 6, padding: "2px 6px",
+};
@@ -1,3 +1,5 @@
 export { default as ProgressHud } from "./ProgressHud";
 export { default as FpsHud } from "./FpsHud";
 export { useFps } from "./useFps";
+export { default as KoppenLegend } from "./KoppenLegend";
+export { default as PlanetPreview } from "./PlanetPreview";
@@ -0,0 +1,64 @@
+import React, { useRef, useState } from "react";
+import type { Brush } from "../../model/types";
+import { falloffProfile } from "../../sim/brush";
+
+type Props = {
+  falloff: Brush["falloff"];
+  onChange: (curve: number[]) => void;
+};
+
+const W = 296, H = 90, PAD = 8;
+const px = (t: number) => PAD + t * (W - 2 * PAD);      // distance from centre → x
+const py = (v: number) => H - PAD - v * (H - 2 * PAD);  // weight → y
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
+const SAMPLES = 48;
+
+/**
+ * Brush falloff, centre (left) to edge (right). With the custom profile the
+ * curve's points can be dragged up and down; other profiles are shown read-only.
+ */
+export default function FalloffEditor({ falloff, onChange }: Props) {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const [drag, setDrag] = useState<number | null>(null);
+  const custom = falloff.profile === "custom";
+  const { curve } = falloff;
+
+  const profile = falloffProfile(falloff);
+  const path = Array.from({ length: SAMPLES + 1 }, (_, i) => {
+    const t = i / SAMPLES;
+    return `${i ? "L" : "M"}${px(t).toFixed(1)},${py(clamp01(profile(t))).toFixed(1)}`;
+  }).join("");
+
+  function onMove(e: React.PointerEvent) {
+    if (drag === null || !svgRef.current) return;
+    const box = svgRef.current.getBoundingClientRect();
+    const sy = ((e.clientY - box.top) / box.height) * H;
+    const v = Math.round(clamp01((H - PAD - sy) / (H - 2 * PAD)) * 100) / 100;
+    onChange(curve.map((c, i) => (i === drag ? v : c)));
+  }
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${W} ${H}`}
+      style={{ width: "100%", display: "block", userSelect: "none", marginBottom: 8 }}
+      onPointerMove={onMove}
+      onPointerUp={() => setDrag(null)}
+      onPointerCancel={() => setDrag(null)}
+    >
+      <rect x={px(0)} y={py(1)} width={px(1) - px(0)} height={py(0) - py(1)} fill="rgba(255,255,255,0.04)" />
+      <path d={path} fill="none" stroke="#60a5fa" strokeWidth={1.5} />
+      {custom && curve.map((v, i) => (
+        <circle
+          key={i}
+          cx={px(i / (curve.length - 1))} cy={py(v)} r={5}
+          fill={drag === i ? "#60a5fa" : "#111827"} stroke="#60a5fa" strokeWidth={1.5}
+          style={{ cursor: "ns-resize" }}
+          onPointerDown={(e) => { (e.target as Element).setPointerCapture(e.pointerId); setDrag(i); }}
+        />
+      ))}
+      <text x={px(0)} y={H - 0.5} fontSize={8} fill="#9ca3af">centre</text>
+      <text x={px(1)} y={H - 0.5} fontSize={8} textAnchor="end" fill="#9ca3af">edge</text>
+    </svg>
+  );
+}
@@ -1,6 +1,10 @@
 import React from "react";
 import { useUIStore } from "../../state/store";
-import type { Brush } from "../../model/types";
+import { DEFAULT_BIOME_RULES, parseBiomeRules } from "../../model/biomes";
+import { importStamp } from "../../model/stamps";
+import WhittakerEditor from "./WhittakerEditor";
+import FalloffEditor from "./FalloffEditor";
+import type { Brush, FalloffProfile, StampBlend, FractalMode, MaskKind, NoiseKind, PlanetParams, TectonicsParams, WrapMode } from "../../model/types";
 
 type Props = {
   open: boolean;
@@ -9,10 +13,49 @@ type Props = {
 };
 
 export default function LeftPanel({ open, onToggle, onReseed }: Props) {
-  const { seed, setSeed, params, setParams, brush, setBrush } = useUIStore();
+  const { seed, setSeed, params, setParams, brush, setBrush, overlays, setOverlay, month, setMonth, biomeRules, setBiomeRules, history, undo, redo, stamps, addStamp, removeStamp } = useUIStore();
+
+  const sphere = params.planet.mode === "sphere";
+
+  async function loadRules(file: File) {
+    try {
+      setBiomeRules(parseBiomeRules(JSON.parse(await file.text())));
+    } catch (err) {
+      alert(`Invalid biome rules: ${(err as Error).message}`);
+    }
+  }
+
+  function saveRules() {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(biomeRules, null, 2)], { type: "application/json" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "biomes.json";
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  // PNGs dropped anywhere on the panel become stamps; the last one is selected
+  async function dropStamps(e: React.DragEvent) {
+    const files = Array.from(e.dataTransfer.files).filter((f) => f.type === "image/png");
+    if (!files.length) return;
+    e.preventDefault();
+    let id: string | null = null;
+    for (const file of files) {
+      try {
+        const stamp = await importStamp(file);
+        addStamp(stamp);
+        id = stamp.id;
+      } catch (err) {
+        alert(`Couldn't read ${file.name}: ${(err as Error).message}`);
+      }
+    }
+    if (id) setBrush({ kind: "stamp", stamp: { ...useUIStore.getState().brush.stamp, id } });
+  }
 
   return (
-    <aside style={{ ...wrap, transform: open ? "translateX(0)" : "translateX(-16px)", opacity: open ? 1 : 0, pointerEvents: open ? "auto" : "none" }}>
+    <aside style={{ ...wrap, transform: open ? "translateX(0)" : "translateX(-16px)", opacity: open ? 1 : 0, pointerEvents: open ? "auto" : "none" }}
+      onDragOver={(e) => { if (e.dataTransfer.types.includes("Files")) e.preventDefault(); }}
+      onDrop={dropStamps}>
   <div style={header}>
     <strong>BiomeLab</strong>
     <button style={btn} onClick={onToggle}>{open ? "⟨" : "⟩"}</button>
@@ -31,9 +74,66 @@ export default function LeftPanel({ open, onToggle, onReseed }: Props) {
   {[256, 384, 512, 768, 1024].map((s) => <option key={s} value={s}>{s}×{s}</option>)}
   </select>
   </Row>
+    <Row>
+      <Label>Wrap</Label>
+    <select style={num} value={params.wrap} disabled={sphere} onChange={(e) => setParams({ wrap: e.target.value as WrapMode })}>
+    <option value="none">none</option>
+    <option value="x">cylinder (X)</option>
+    <option value="xy">torus (X+Y)</option>
+    </select>
+    </Row>
+  </Section>
+
+  <Section title="Planet">
+    <Row>
+      <Label>Mode</Label>
+    <select style={num} value={params.planet.mode} onChange={(e) => {
+      const mode = e.target.value as PlanetParams["mode"];
+      // a whole planet wraps east/west
+      setParams({ planet: { ...params.planet, mode }, ...(mode === "sphere" ? { wrap: "x" as WrapMode } : {}) });
+    }}>
+    <option value="flat">flat region</option>
+    <option value="sphere">whole planet</option>
+    </select>
+    </Row>
+  {!sphere && <>
+  <Slider label="Center Latitude" value={params.latitude} min={0} max={90} step={1}
+    onChange={(v) => setParams({ latitude: v })}/>
+    <Row>
+      <Label>Hemisphere</Label>
+    <select style={num} value={params.planet.hemisphere} onChange={(e) => setParams({ planet: { ...params.planet, hemisphere: e.target.value as PlanetParams["hemisphere"] } })}>
+    <option value="north">north</option>
+    <option value="south">south</option>
+    </select>
+    </Row>
+  <Slider label="Latitude Span" value={params.planet.span} min={5} max={180} step={1}
+    onChange={(v) => setParams({ planet: { ...params.planet, span: v } })}/>
+  </>}
+  <Slider label="Axial Tilt" value={params.planet.tilt} min={0} max={90} step={0.5}
+    onChange={(v) => setParams({ planet: { ...params.planet, tilt: v } })}/>
+  <Slider label="Base Temp" value={params.planet.baseTemp} min={-0.5} max={0.5} step={0.01}
+    onChange={(v) => setParams({ planet: { ...params.planet, baseTemp: v } })}/>
   </Section>
 
   <Section title="Noise">
+    <Row>
+      <Label>Type</Label>
+    <select style={num} value={params.noise.kind} onChange={(e) => setParams({ noise: { ...params.noise, kind: e.target.value as NoiseKind } })}>
+    <option value="value">value</option>
+    <option value="perlin">perlin</option>
+    <option value="simplex">simplex</option>
+    <option value="cellular">cellular</option>
+    </select>
+    </Row>
+    <Row>
+      <Label>Fractal</Label>
+    <select style={num} value={params.noise.fractal} onChange={(e) => setParams({ noise: { ...params.noise, fractal: e.target.value as FractalMode } })}>
+    <option value="fbm">fbm</option>
+    <option value="ridged">ridged</option>
+    <option value="billow">billow</option>
+    <option value="hybrid">hybrid</option>
+    </select>
+    </Row>
   <Slider label="Octaves" value={params.noise.octaves} min={1} max={8} step={1}
     onChange={(v) => setParams({ noise: { ...params.noise, octaves: v } })}/>
   <Slider label="Lacunarity" value={params.noise.lacunarity} min={1} max={4} step={0.1}
@@ -42,6 +142,116 @@ export default function LeftPanel({ open, onToggle, onReseed }: Props) {
     onChange={(v) => setParams({ noise: { ...params.noise, gain: v } })}/>
   <Slider label="Warp" value={params.noise.warp} min={0} max={80} step={1}
     onChange={(v) => setParams({ noise: { ...params.noise, warp: v } })}/>
+  {(params.noise.fractal === "ridged" || params.noise.fractal === "hybrid") && (
+  <Slider label="Ridge Offset" value={params.noise.ridgeOffset} min={0.5} max={1.5} step={0.05}
+    onChange={(v) => setParams({ noise: { ...params.noise, ridgeOffset: v } })}/>
+  )}
+  {params.noise.fractal === "ridged" && (
+  <Slider label="Ridge Sharpness" value={params.noise.ridgeSharpness} min={1} max={4} step={0.1}
+    onChange={(v) => setParams({ noise: { ...params.noise, ridgeSharpness: v } })}/>
+  )}
+  </Section>
+
+  <Section title="Tectonics">
+    <Row>
+      <Label>Mode</Label>
+    <select style={num} value={params.tectonics.mode} onChange={(e) => setParams({ tectonics: { ...params.tectonics, mode: e.target.value as TectonicsParams["mode"] } })}>
+    <option value="off">off</option>
+    <option value="blend">blend with noise</option>
+    <option value="replace">replace noise</option>
+    </select>
+    </Row>
+  <Slider label="Plates" value={params.tectonics.plates} min={2} max={64} step={1}
+    onChange={(v) => setParams({ tectonics: { ...params.tectonics, plates: v } })}/>
+  <Slider label="Oceanic Ratio" value={params.tectonics.oceanicRatio} min={0} max={1} step={0.05}
+    onChange={(v) => setParams({ tectonics: { ...params.tectonics, oceanicRatio: v } })}/>
+  <Slider label="Uplift Width" value={params.tectonics.upliftWidth} min={0.005} max={0.2} step={0.005}
+    onChange={(v) => setParams({ tectonics: { ...params.tectonics, upliftWidth: v } })}/>
+  <Slider label="Uplift Strength" value={params.tectonics.upliftStrength} min={0} max={1} step={0.01}
+    onChange={(v) => setParams({ tectonics: { ...params.tectonics, upliftStrength: v } })}/>
+    <Row>
+      <Label>Show plates</Label>
+    <input type="checkbox" checked={overlays.plates} onChange={(e) => setOverlay("plates", e.target.checked)} />
+    </Row>
+  </Section>
+
+  <Section title="Mask">
+    <Row>
+      <Label>Kind</Label>
+    <select style={num} value={params.mask.kind} onChange={(e) => setParams({ mask: { ...params.mask, kind: e.target.value as MaskKind } })}>
+    <option value="none">none</option>
+    <option value="continent">continent</option>
+    <option value="archipelago">archipelago</option>
+    <option value="coastline">coastline</option>
+    <option value="painted">painted</option>
+    </select>
+    </Row>
+  <Slider label="Coverage" value={params.mask.coverage} min={0} max={1} step={0.01}
+    onChange={(v) => setParams({ mask: { ...params.mask, coverage: v } })}/>
+  <Slider label="Falloff" value={params.mask.falloff} min={0.01} max={1} step={0.01}
+    onChange={(v) => setParams({ mask: { ...params.mask, falloff: v } })}/>
+  {params.mask.kind === "archipelago" && (
+  <Slider label="Islands" value={params.mask.islands} min={1} max={32} step={1}
+    onChange={(v) => setParams({ mask: { ...params.mask, islands: v } })}/>
+  )}
+    <Row>
+      <Label>Show overlay</Label>
+    <input type="checkbox" checked={overlays.mask} onChange={(e) => setOverlay("mask", e.target.checked)} />
+    </Row>
+  </Section>
+
+  <Section title="Thermal">
+  <Slider label="Iterations" value={params.thermal.iterations} min={0} max={200} step={1}
+    onChange={(v) => setParams({ thermal: { ...params.thermal, iterations: v } })}/>
+  <Slider label="Talus" value={params.thermal.talus} min={0.1} max={10} step={0.1}
+    onChange={(v) => setParams({ thermal: { ...params.thermal, talus: v } })}/>
+  <Slider label="Rate" value={params.thermal.rate} min={0} max={1} step={0.01}
+    onChange={(v) => setParams({ thermal: { ...params.thermal, rate: v } })}/>
+  </Section>
+
+  <Section title="Ocean floor">
+  <Slider label="Strength" value={params.bathymetry.strength} min={0} max={1} step={0.01}
+    onChange={(v) => setParams({ bathymetry: { ...params.bathymetry, strength: v } })}/>
+  <Slider label="Shelf width" value={params.bathymetry.shelfWidth} min={0} max={0.1} step={0.005}
+    onChange={(v) => setParams({ bathymetry: { ...params.bathymetry, shelfWidth: v } })}/>
+  <Slider label="Slope width" value={params.bathymetry.slopeWidth} min={0.005} max={0.05} step={0.005}
+    onChange={(v) => setParams({ bathymetry: { ...params.bathymetry, slopeWidth: v } })}/>
+  <Slider label="Ridge height" value={params.bathymetry.ridgeHeight} min={0} max={0.8} step={0.01}
+    onChange={(v) => setParams({ bathymetry: { ...params.bathymetry, ridgeHeight: v } })}/>
+  <Slider label="Trench depth" value={params.bathymetry.trenchDepth} min={0} max={0.5} step={0.01}
+    onChange={(v) => setParams({ bathymetry: { ...params.bathymetry, trenchDepth: v } })}/>
+  </Section>
+
+  <Section title="Glaciers">
+  <Slider label="Passes" value={params.glaciers.iterations} min={0} max={400} step={10}
+    onChange={(v) => setParams({ glaciers: { ...params.glaciers, iterations: v } })}/>
+  <Slider label="Snowline" value={params.glaciers.snowline} min={0.05} max={0.6} step={0.01}
+    onChange={(v) => setParams({ glaciers: { ...params.glaciers, snowline: v } })}/>
+  <Slider label="Snowfall" value={params.glaciers.accumulation} min={0} max={3} step={0.05}
+    onChange={(v) => setParams({ glaciers: { ...params.glaciers, accumulation: v } })}/>
+  <Slider label="Flow" value={params.glaciers.flow} min={0} max={1} step={0.01}
+    onChange={(v) => setParams({ glaciers: { ...params.glaciers, flow: v } })}/>
+  <Slider label="Carve" value={params.glaciers.carve} min={0} max={1} step={0.01}
+    onChange={(v) => setParams({ glaciers: { ...params.glaciers, carve: v } })}/>
+    <Row>
+      <Label>Show ice</Label>
+    <input type="checkbox" checked={overlays.ice} onChange={(e) => setOverlay("ice", e.target.checked)} />
+    </Row>
+  </Section>
+
+  <Section title="Erosion">
+  <Slider label="Droplets" value={params.erosion.iterations} min={0} max={500000} step={10000}
+    onChange={(v) => setParams({ erosion: { ...params.erosion, iterations: v } })}/>
+  <Slider label="Inertia" value={params.erosion.inertia} min={0} max={0.95} step={0.01}
+    onChange={(v) => setParams({ erosion: { ...params.erosion, inertia: v } })}/>
+  <Slider label="Capacity" value={params.erosion.capacity} min={0.5} max={16} step={0.5}
+    onChange={(v) => setParams({ erosion: { ...params.erosion, capacity: v } })}/>
+  <Slider label="Deposition" value={params.erosion.deposition} min={0} max={1} step={0.01}
+    onChange={(v) => setParams({ erosion: { ...params.erosion, deposition: v } })}/>
+  <Slider label="Erosion" value={params.erosion.erosion} min={0} max={1} step={0.01}
+    onChange={(v) => setParams({ erosion: { ...params.erosion, erosion: v } })}/>
+  <Slider label="Evaporation" value={params.erosion.evaporation} min={0} max={0.2} step={0.005}
+    onChange={(v) => setParams({ erosion: { ...params.erosion, evaporation: v } })}/>
   </Section>
 
   <Section title="Climate">
@@ -51,8 +261,74 @@ export default function LeftPanel({ open, onToggle, onReseed }: Props) {
     onChange={(v) => setParams({ climate: { ...params.climate, tempLapse: v } })}/>
   <Slider label="Moisture Shift" value={params.climate.moistureShift} min={-0.5} max={0.5} step={0.01}
     onChange={(v) => setParams({ climate: { ...params.climate, moistureShift: v } })}/>
+  <Slider label="Trade Wind°" value={params.climate.wind.trade} min={-180} max={180} step={5}
+    onChange={(v) => setParams({ climate: { ...params.climate, wind: { ...params.climate.wind, trade: v } } })}/>
+  <Slider label="Westerlies°" value={params.climate.wind.westerly} min={-180} max={180} step={5}
+    onChange={(v) => setParams({ climate: { ...params.climate, wind: { ...params.climate.wind, westerly: v } } })}/>
+  <Slider label="Polar Wind°" value={params.climate.wind.polar} min={-180} max={180} step={5}
+    onChange={(v) => setParams({ climate: { ...params.climate, wind: { ...params.climate.wind, polar: v } } })}/>
+  <Slider label="Wind Reach" value={params.climate.wind.reach} min={0.05} max={2} step={0.05}
+    onChange={(v) => setParams({ climate: { ...params.climate, wind: { ...params.climate.wind, reach: v } } })}/>
+  <Slider label="Orographic" value={params.climate.wind.orographic} min={0} max={10} step={0.1}
+    onChange={(v) => setParams({ climate: { ...params.climate, wind: { ...params.climate.wind, orographic: v } } })}/>
+    <Row>
+      <Label>Show wind</Label>
+    <input type="checkbox" checked={overlays.wind} onChange={(e) => setOverlay("wind", e.target.checked)} />
+    </Row>
+  <Slider label="Continentality" value={params.climate.continentality} min={0} max={1} step={0.01}
+    onChange={(v) => setParams({ climate: { ...params.climate, continentality: v } })}/>
+    <Row>
+      <Label>Show coast distance</Label>
+    <input type="checkbox" checked={overlays.coast} onChange={(e) => setOverlay("coast", e.target.checked)} />
+    </Row>
   <Slider label="River Thresh" value={params.riverThreshold} min={0.001} max={0.1} step={0.001}
     onChange={(v) => setParams({ riverThreshold: v })}/>
+  <Slider label="Rain Weight" value={params.hydrology.rainfall} min={0} max={1} step={0.01}
+    onChange={(v) => setParams({ hydrology: { ...params.hydrology, rainfall: v } })}/>
+  <Slider label="Evap Loss" value={params.hydrology.loss} min={0} max={1} step={0.01}
+    onChange={(v) => setParams({ hydrology: { ...params.hydrology, loss: v } })}/>
+  <Slider label="Incision" value={params.incision.rate} min={0} max={1} step={0.01}
+    onChange={(v) => setParams({ incision: { ...params.incision, rate: v } })}/>
+  <Slider label="Valley Width" value={params.incision.width} min={0} max={0.06} step={0.002}
+    onChange={(v) => setParams({ incision: { ...params.incision, width: v } })}/>
+    <Row>
+      <Label>Deltas</Label>
+    <input type="checkbox" checked={params.incision.deltas} onChange={(e) => setParams({ incision: { ...params.incision, deltas: e.target.checked } })} />
+    </Row>
+  </Section>
+
+  <Section title="Seasons">
+  <Slider label={`Month (${MONTH_NAMES[month]})`} value={month} min={0} max={11} step={1}
+    onChange={(v) => setMonth(v)}/>
+    <Row>
+      <Label>Show temperature</Label>
+    <input type="checkbox" checked={overlays.monthTemp} onChange={(e) => setOverlay("monthTemp", e.target.checked)} />
+    </Row>
+    <Row>
+      <Label>Show precipitation</Label>
+    <input type="checkbox" checked={overlays.monthPrecip} onChange={(e) => setOverlay("monthPrecip", e.target.checked)} />
+    </Row>
+    <Row>
+      <Label>Show Köppen</Label>
+    <input type="checkbox" checked={overlays.koppen} onChange={(e) => setOverlay("koppen", e.target.checked)} />
+    </Row>
+  </Section>
+
+  <Section title="Biomes">
+  <WhittakerEditor rules={biomeRules} onChange={setBiomeRules} />
+    <Row>
+      <Label>Show biomes</Label>
+    <input type="checkbox" checked={overlays.biomes} onChange={(e) => setOverlay("biomes", e.target.checked)} />
+    </Row>
+    <Row>
+    <label style={btn}>
+      Load JSON
+      <input type="file" accept="application/json,.json" style={{ display: "none" }}
+        onChange={(e) => { const f = e.target.files?.[0]; if (f) loadRules(f); e.target.value = ""; }} />
+    </label>
+  <button style={btn} onClick={saveRules}>Save</button>
+  <button style={btn} onClick={() => setBiomeRules(DEFAULT_BIOME_RULES)}>Reset</button>
+    </Row>
   </Section>
 
   <Section title="Brush">
@@ -63,12 +339,125 @@ export default function LeftPanel({ open, onToggle, onReseed }: Props) {
       <option value="lower">lower</option>
     <option value="smooth">smooth</option>
     <option value="rain">rain</option>
+    <option value="mask">mask (land)</option>
+    <option value="unmask">mask (ocean)</option>
+    <option value="erode">erode</option>
+    <option value="relax">relax (talus)</option>
+    <option value="flatten">flatten</option>
+    <option value="terrace">terrace</option>
+    <option value="noise">noise</option>
+    <option value="plateau">plateau</option>
+    <option value="slope">slope (2 clicks)</option>
+    <option value="stamp">stamp</option>
     </select>
     </Row>
     <Slider label="Radius" value={brush.radius} min={1} max={128} step={1}
     onChange={(v) => setBrush({ radius: v })}/>
   <Slider label="Strength" value={brush.strength} min={0.01} max={1} step={0.01}
     onChange={(v) => setBrush({ strength: v })}/>
+  <Slider label="Flow" value={brush.flow} min={0.05} max={1} step={0.05}
+    onChange={(v) => setBrush({ flow: v })}/>
+  <Slider label="Spacing" value={brush.spacing} min={0.05} max={2} step={0.05}
+    onChange={(v) => setBrush({ spacing: v })}/>
+    <Row>
+      <Label>Falloff</Label>
+    <select style={num} value={brush.falloff.profile} onChange={(e) => setBrush({ falloff: { ...brush.falloff, profile: e.target.value as FalloffProfile } })}>
+    <option value="cosine">cosine</option>
+    <option value="linear">linear</option>
+    <option value="gaussian">gaussian</option>
+    <option value="sharp">sharp</option>
+    <option value="flat">flat-top</option>
+    <option value="custom">custom curve</option>
+    </select>
+    </Row>
+  <FalloffEditor falloff={brush.falloff} onChange={(curve) => setBrush({ falloff: { ...brush.falloff, curve } })} />
+    <Row>
+      <Label>Pen pressure → radius</Label>
+    <input type="checkbox" checked={brush.pen.pressureRadius} onChange={(e) => setBrush({ pen: { ...brush.pen, pressureRadius: e.target.checked } })} />
+    </Row>
+    <Row>
+      <Label>Pen pressure → strength</Label>
+    <input type="checkbox" checked={brush.pen.pressureStrength} onChange={(e) => setBrush({ pen: { ...brush.pen, pressureStrength: e.target.checked } })} />
+    </Row>
+    <Row>
+      <Label>Pen tilt → radius</Label>
+    <input type="checkbox" checked={brush.pen.tiltRadius} onChange={(e) => setBrush({ pen: { ...brush.pen, tiltRadius: e.target.checked } })} />
+    </Row>
+  {brush.kind === "flatten" && (
+    <Row>
+      <Label>Flatten</Label>
+    <select style={num} value={brush.flatten.mode} onChange={(e) => setBrush({ flatten: { mode: e.target.value as Brush["flatten"]["mode"] } })}>
+    <option value="both">both ways</option>
+    <option value="cut">cut only</option>
+    <option value="fill">fill only</option>
+    </select>
+    </Row>
+  )}
+  {brush.kind === "terrace" && (<>
+  <Slider label="Steps" value={brush.terrace.steps} min={2} max={32} step={1}
+    onChange={(v) => setBrush({ terrace: { ...brush.terrace, steps: v } })}/>
+  <Slider label="Sharpness" value={brush.terrace.sharpness} min={0} max={1} step={0.05}
+    onChange={(v) => setBrush({ terrace: { ...brush.terrace, sharpness: v } })}/>
+  </>)}
+  {brush.kind === "noise" && (<>
+  <Slider label="Noise Seed" value={brush.noise.seed} min={1} max={999} step={1}
+    onChange={(v) => setBrush({ noise: { ...brush.noise, seed: v } })}/>
+  <Slider label="Scale" value={brush.noise.scale} min={2} max={128} step={1}
+    onChange={(v) => setBrush({ noise: { ...brush.noise, scale: v } })}/>
+  <Slider label="Octaves" value={brush.noise.octaves} min={1} max={8} step={1}
+    onChange={(v) => setBrush({ noise: { ...brush.noise, octaves: v } })}/>
+  </>)}
+  {brush.kind === "plateau" && (
+  <Slider label="Level" value={brush.plateau.level} min={0} max={1} step={0.01}
+    onChange={(v) => setBrush({ plateau: { level: v } })}/>
+  )}
+  {brush.kind === "slope" && (<>
+  <Slider label="Ease" value={brush.slope.ease} min={0} max={1} step={0.05}
+    onChange={(v) => setBrush({ slope: { ease: v } })}/>
+    <div style={label}>Click the ramp's start, then its end.</div>
+  </>)}
+  {brush.kind === "stamp" && (<>
+    <div style={stampGrid}>
+    {stamps.map((s) => (
+      <div key={s.id} style={{ ...stampTile, borderColor: s.id === brush.stamp.id ? "#60a5fa" : "#1f2937" }}
+        title={`${s.name} (${s.width}×${s.height})`}
+        onClick={() => setBrush({ stamp: { ...brush.stamp, id: s.id } })}>
+        <img src={s.thumbnail} alt={s.name} style={{ display: "block", maxWidth: 48, maxHeight: 48 }}/>
+        <button style={stampRemove} title="Remove" onClick={(e) => { e.stopPropagation(); removeStamp(s.id); }}>×</button>
+      </div>
+    ))}
+    </div>
+    <div style={label}>{stamps.length ? "Click the map to place the selected stamp." : "Drop PNG heightmaps on this panel."}</div>
+    <Row>
+      <Label>Blend</Label>
+    <select style={num} value={brush.stamp.blend} onChange={(e) => setBrush({ stamp: { ...brush.stamp, blend: e.target.value as StampBlend } })}>
+    <option value="add">add</option>
+    <option value="max">max</option>
+    <option value="min">min</option>
+    <option value="replace">replace</option>
+    </select>
+    </Row>
+  <Slider label="Rotation" value={brush.stamp.rotation} min={-180} max={180} step={5}
+    onChange={(v) => setBrush({ stamp: { ...brush.stamp, rotation: v } })}/>
+  <Slider label="Scale" value={brush.stamp.scale} min={0.01} max={0.5} step={0.01}
+    onChange={(v) => setBrush({ stamp: { ...brush.stamp, scale: v } })}/>
+  </>)}
+  </Section>
+
+  <Section title="History">
+    <Row>
+  <button style={btn} disabled={!history.undo.length} onClick={undo} title="Ctrl+Z">Undo</button>
+  <button style={btn} disabled={!history.redo.length} onClick={redo} title="Ctrl+Shift+Z">Redo</button>
+    </Row>
+    {!history.undo.length && !history.redo.length && <div style={label}>No brush strokes yet</div>}
+    <ol style={historyList}>
+    {history.undo.map((h) => (
+      <li key={h.id}>{h.kind} · {h.rect.x1 - h.rect.x0 + 1}×{h.rect.y1 - h.rect.y0 + 1}</li>
+    ))}
+    {[...history.redo].reverse().map((h) => (
+      <li key={h.id} style={{ opacity: 0.4 }}>{h.kind} · {h.rect.x1 - h.rect.x0 + 1}×{h.rect.y1 - h.rect.y0 + 1}</li>
+    ))}
+    </ol>
   </Section>
   </div>
   </aside>
@@ -77,6 +466,8 @@ export default function LeftPanel({ open, onToggle, onReseed }: Props) {
 
   /* --- little subcomponents & styles --- */
 
+  const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
   function Section({ title, children }: { title: string; children: React.ReactNode }) {
     return (
       <section style={{ marginBottom: 12 }}>
@@ -156,3 +547,10 @@ const wrap: React.CSSProperties = {
     borderRadius: 8, padding: "6px 8px",
   };
   const range: React.CSSProperties = { width: "100%", height: 28 };
+  const stampGrid: React.CSSProperties = { display: "flex", flexWrap: "wrap", gap: 6, margin: "6px 0" };
+  const stampTile: React.CSSProperties = { position: "relative", border: "2px solid", borderRadius: 4, cursor: "pointer", background: "#000" };
+  const stampRemove: React.CSSProperties = {
+    position: "absolute", top: -6, right: -6, width: 16, height: 16, padding: 0, lineHeight: "14px",
+    borderRadius: 8, border: "1px solid #374151", background: "#111827", color: "#e5e7eb", fontSize: 11, cursor: "pointer",
+  };
+  const historyList: React.CSSProperties = { margin: 0, paddingLeft: 20, maxHeight: 160, overflow: "auto", fontSize: 12 };
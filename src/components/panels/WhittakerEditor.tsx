@@ -0,0 +1,116 @@
+import React, { useRef, useState } from "react";
+import type { BiomeRegion, BiomeRules, Bounds } from "../../model/types";
+import { biomeOrder } from "../../model/biomes";
+
+type Props = {
+  rules: BiomeRules;
+  onChange: (rules: BiomeRules) => void;
+};
+
+type Axis = "temperature" | "moisture";
+type Edge = { biome: number; region: number; axis: Axis; bound: keyof Bounds };
+
+const W = 296, H = 200, PAD = 22;
+const px = (t: number) => PAD + t * (W - PAD - 4);     // temperature → x
+const py = (m: number) => H - PAD - m * (H - PAD - 4); // moisture → y (wet at the top)
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
+
+// Only plain land climate regions (no surface/height/altitude conditions) live on the diagram
+const isClimateRegion = (g: BiomeRegion) =>
+  (g.surface ?? "land") === "land" && !g.height && !g.altitude && (!!g.temperature || !!g.moisture);
+
+/**
+ * Whittaker diagram (temperature → right, moisture → up) of the biome rules.
+ * Higher-priority regions are drawn on top. Drag a region edge to move that
+ * boundary; edges sharing the same value move together so neighbours stay joined.
+ */
+export default function WhittakerEditor({ rules, onChange }: Props) {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const [drag, setDrag] = useState<Edge[] | null>(null);
+
+  const order = biomeOrder(rules);
+  const rects = [...order].reverse().flatMap((biome) =>
+    rules.biomes[biome].regions.flatMap((g, region) => (isClimateRegion(g) ? [{ biome, region, g }] : [])));
+
+  function startDrag(e: React.PointerEvent, edge: Edge) {
+    const value = rules.biomes[edge.biome].regions[edge.region][edge.axis]![edge.bound]!;
+    const edges: Edge[] = [];
+    rules.biomes.forEach((b, biome) => b.regions.forEach((g, region) => {
+      if (!isClimateRegion(g)) return;
+      for (const bound of ["min", "max"] as const) {
+        if (Math.abs((g[edge.axis]?.[bound] ?? NaN) - value) < 1e-6) edges.push({ biome, region, axis: edge.axis, bound });
+      }
+    }));
+    (e.target as Element).setPointerCapture(e.pointerId);
+    setDrag(edges);
+  }
+
+  function onMove(e: React.PointerEvent) {
+    if (!drag || !svgRef.current) return;
+    const box = svgRef.current.getBoundingClientRect();
+    const sx = ((e.clientX - box.left) / box.width) * W;
+    const sy = ((e.clientY - box.top) / box.height) * H;
+    const v = drag[0].axis === "temperature"
+      ? (sx - PAD) / (W - PAD - 4)
+      : (H - PAD - sy) / (H - PAD - 4);
+    const value = Math.round(clamp01(v) * 100) / 100;
+
+    const biomes = rules.biomes.map((b) => ({ ...b, regions: b.regions.map((g) => ({ ...g })) }));
+    for (const { biome, region, axis, bound } of drag) {
+      const g = biomes[biome].regions[region];
+      g[axis] = { ...g[axis], [bound]: value };
+    }
+    onChange({ ...rules, biomes });
+  }
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${W} ${H}`}
+      style={{ width: "100%", display: "block", userSelect: "none", marginBottom: 8 }}
+      onPointerMove={onMove}
+      onPointerUp={() => setDrag(null)}
+      onPointerCancel={() => setDrag(null)}
+    >
+      <rect x={px(0)} y={py(1)} width={px(1) - px(0)} height={py(0) - py(1)} fill="rgba(255,255,255,0.04)" />
+      {rects.map(({ biome, region, g }) => {
+        const { name, color } = rules.biomes[biome];
+        const t0 = g.temperature?.min ?? 0, t1 = g.temperature?.max ?? 1;
+        const m0 = g.moisture?.min ?? 0, m1 = g.moisture?.max ?? 1;
+        const x0 = px(clamp01(t0)), x1 = px(clamp01(t1));
+        const y0 = py(clamp01(m1)), y1 = py(clamp01(m0));
+        const handle = (axis: Axis, bound: keyof Bounds) => {
+          if (g[axis]?.[bound] === undefined) return null;
+          const vertical = axis === "temperature";
+          const at = vertical ? (bound === "min" ? x0 : x1) : (bound === "min" ? y1 : y0);
+          return (
+            <line
+              key={`${axis}-${bound}`}
+              x1={vertical ? at : x0} x2={vertical ? at : x1}
+              y1={vertical ? y0 : at} y2={vertical ? y1 : at}
+              stroke="transparent" strokeWidth={8}
+              style={{ cursor: vertical ? "ew-resize" : "ns-resize" }}
+              onPointerDown={(e) => startDrag(e, { biome, region, axis, bound })}
+            />
+          );
+        };
+        return (
+          <g key={`${biome}-${region}`}>
+            <rect x={x0} y={y0} width={Math.max(0, x1 - x0)} height={Math.max(0, y1 - y0)}
+              fill={`rgb(${color.join(",")})`} stroke="rgba(0,0,0,0.5)" strokeWidth={0.5}>
+              <title>{name}</title>
+            </rect>
+            {x1 - x0 > 36 && y1 - y0 > 12 && (
+              <text x={(x0 + x1) / 2} y={(y0 + y1) / 2 + 3} fontSize={8} textAnchor="middle" fill="#111" pointerEvents="none">{name}</text>
+            )}
+            {handle("temperature", "min")}{handle("temperature", "max")}
+            {handle("moisture", "min")}{handle("moisture", "max")}
+          </g>
+        );
+      })}
+      <text x={(px(0) + px(1)) / 2} y={H - 6} fontSize={9} textAnchor="middle" fill="#9ca3af">temperature →</text>
+      <text x={10} y={(py(0) + py(1)) / 2} fontSize={9} textAnchor="middle" fill="#9ca3af"
+        transform={`rotate(-90 10 ${(py(0) + py(1)) / 2})`}>moisture →</text>
+    </svg>
+  );
+}
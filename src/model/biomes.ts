@@ -0,0 +1,80 @@
+// /src/model/biomes.ts
+// Loading/validation of biome rule sets (BiomeRules) and the default set.
+
+import type { BiomeDef, BiomeRegion, BiomeRules, Bounds } from "./types";
+import defaultRules from "./biomes.default.json";
+
+/** fields.biomes value for cells no biome claims. */
+export const UNCLASSIFIED = 255;
+
+const SURFACES = ["land", "ocean", "lake", "ice"] as const;
+const BOUND_KEYS = ["temperature", "moisture", "height", "altitude"] as const;
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+function parseBounds(v: unknown, path: string): Bounds {
+  if (!isObject(v)) throw new Error(`${path}: expected { min?, max? }`);
+  const out: Bounds = {};
+  for (const k of ["min", "max"] as const) {
+    if (v[k] === undefined) continue;
+    if (typeof v[k] !== "number" || !Number.isFinite(v[k])) throw new Error(`${path}.${k}: expected a number`);
+    out[k] = v[k];
+  }
+  return out;
+}
+
+function parseRegion(v: unknown, path: string): BiomeRegion {
+  if (!isObject(v)) throw new Error(`${path}: expected an object`);
+  const out: BiomeRegion = {};
+  if (v.surface !== undefined) {
+    if (!SURFACES.includes(v.surface as (typeof SURFACES)[number])) {
+      throw new Error(`${path}.surface: expected one of ${SURFACES.join(", ")}`);
+    }
+    out.surface = v.surface as BiomeRegion["surface"];
+  }
+  for (const k of BOUND_KEYS) {
+    if (v[k] !== undefined) out[k] = parseBounds(v[k], `${path}.${k}`);
+  }
+  return out;
+}
+
+function parseBiome(v: unknown, path: string): BiomeDef {
+  if (!isObject(v)) throw new Error(`${path}: expected an object`);
+  if (typeof v.name !== "string") throw new Error(`${path}.name: expected a string`);
+  const c = v.color;
+  if (!Array.isArray(c) || c.length !== 3 || !c.every((x) => Number.isInteger(x) && x >= 0 && x <= 255)) {
+    throw new Error(`${path}.color: expected [r, g, b] with 0..255 integers`);
+  }
+  if (v.priority !== undefined && typeof v.priority !== "number") throw new Error(`${path}.priority: expected a number`);
+  if (v.waterLoss !== undefined && (typeof v.waterLoss !== "number" || v.waterLoss < 0)) {
+    throw new Error(`${path}.waterLoss: expected a number ≥ 0`);
+  }
+  if (!Array.isArray(v.regions)) throw new Error(`${path}.regions: expected an array`);
+  return {
+    name: v.name,
+    color: [c[0], c[1], c[2]],
+    priority: v.priority as number | undefined,
+    waterLoss: v.waterLoss as number | undefined,
+    regions: v.regions.map((r, i) => parseRegion(r, `${path}.regions[${i}]`)),
+  };
+}
+
+/** Validate parsed JSON as BiomeRules; throws an Error naming the offending path. */
+export function parseBiomeRules(json: unknown): BiomeRules {
+  if (!isObject(json)) throw new Error("biome rules: expected an object");
+  if (json.version !== 1) throw new Error("version: expected 1");
+  if (!Array.isArray(json.biomes)) throw new Error("biomes: expected an array");
+  if (json.biomes.length > UNCLASSIFIED) throw new Error(`biomes: at most ${UNCLASSIFIED} entries`);
+  return { version: 1, biomes: json.biomes.map((b, i) => parseBiome(b, `biomes[${i}]`)) };
+}
+
+/** Biome ids in the order they are tested (priority, then list position). */
+export function biomeOrder(rules: BiomeRules): number[] {
+  return rules.biomes
+    .map((b, id) => ({ id, p: b.priority ?? id }))
+    .sort((a, b) => a.p - b.p || a.id - b.id)
+    .map((e) => e.id);
+}
+
+export const DEFAULT_BIOME_RULES: BiomeRules = parseBiomeRules(defaultRules);
@@ -5,17 +5,59 @@ export const BIOME_PALETTE: [number, number, number][] = [
   // ...
 ];
 
-export enum Biome {
-  Ocean = 0,
-  Beach,
-  Desert,
-  Savanna,
-  Grassland,
-  Shrubland,
-  TemperateForest,
-  BorealForest,
-  Rainforest,
-  Tundra,
-  Mountain,
-  Snow,
-}
\ No newline at end of file
+/**
+ * Marine zones for the terrain renderer, in altitude below sea level and
+ * annual temperature (0..1). The default biome rules use the same numbers.
+ */
+export const MARINE = {
+  shelfDepth: 0.05, // coastal shelf down to here (see sim/bathymetry.ts)
+  reefDepth: 0.02,  // reefs grow in shallower water than this...
+  reefTemp: 0.72,   // ...that is at least this warm (~22 °C)
+  seaIceTemp: 0.29, // frozen over below this (~-2 °C)
+};
+
+/** Köppen-Geiger climate classes (Peel et al. 2007 rules). None = ocean. */
+export const Koppen = {
+  None: 0,
+  Af: 1, Am: 2, Aw: 3,
+  BWh: 4, BWk: 5, BSh: 6, BSk: 7,
+  Csa: 8, Csb: 9, Csc: 10, Cwa: 11, Cwb: 12, Cwc: 13, Cfa: 14, Cfb: 15, Cfc: 16,
+  Dsa: 17, Dsb: 18, Dsc: 19, Dsd: 20, Dwa: 21, Dwb: 22, Dwc: 23, Dwd: 24, Dfa: 25, Dfb: 26, Dfc: 27, Dfd: 28,
+  ET: 29, EF: 30,
+} as const;
+export type Koppen = (typeof Koppen)[keyof typeof Koppen];
+
+/** Code, short description and legend color (Beck et al. 2018 palette) per class. */
+export const KOPPEN_INFO: Record<Koppen, { code: string; name: string; color: [number, number, number] }> = {
+  [Koppen.None]: { code: "—", name: "Ocean", color: [0, 0, 0] },
+  [Koppen.Af]: { code: "Af", name: "Tropical rainforest", color: [0, 0, 255] },
+  [Koppen.Am]: { code: "Am", name: "Tropical monsoon", color: [0, 120, 255] },
+  [Koppen.Aw]: { code: "Aw", name: "Tropical savanna", color: [70, 170, 250] },
+  [Koppen.BWh]: { code: "BWh", name: "Hot desert", color: [255, 0, 0] },
+  [Koppen.BWk]: { code: "BWk", name: "Cold desert", color: [255, 150, 150] },
+  [Koppen.BSh]: { code: "BSh", name: "Hot steppe", color: [245, 165, 0] },
+  [Koppen.BSk]: { code: "BSk", name: "Cold steppe", color: [255, 220, 100] },
+  [Koppen.Csa]: { code: "Csa", name: "Mediterranean, hot summer", color: [255, 255, 0] },
+  [Koppen.Csb]: { code: "Csb", name: "Mediterranean, warm summer", color: [200, 200, 0] },
+  [Koppen.Csc]: { code: "Csc", name: "Mediterranean, cold summer", color: [150, 150, 0] },
+  [Koppen.Cwa]: { code: "Cwa", name: "Humid subtropical, dry winter", color: [150, 255, 150] },
+  [Koppen.Cwb]: { code: "Cwb", name: "Subtropical highland, dry winter", color: [100, 200, 100] },
+  [Koppen.Cwc]: { code: "Cwc", name: "Subpolar oceanic, dry winter", color: [50, 150, 50] },
+  [Koppen.Cfa]: { code: "Cfa", name: "Humid subtropical", color: [200, 255, 80] },
+  [Koppen.Cfb]: { code: "Cfb", name: "Oceanic", color: [100, 255, 80] },
+  [Koppen.Cfc]: { code: "Cfc", name: "Subpolar oceanic", color: [50, 200, 0] },
+  [Koppen.Dsa]: { code: "Dsa", name: "Continental, dry hot summer", color: [255, 0, 255] },
+  [Koppen.Dsb]: { code: "Dsb", name: "Continental, dry warm summer", color: [200, 0, 200] },
+  [Koppen.Dsc]: { code: "Dsc", name: "Subarctic, dry summer", color: [150, 50, 150] },
+  [Koppen.Dsd]: { code: "Dsd", name: "Subarctic, dry summer, severe winter", color: [150, 100, 150] },
+  [Koppen.Dwa]: { code: "Dwa", name: "Continental, dry winter, hot summer", color: [170, 175, 255] },
+  [Koppen.Dwb]: { code: "Dwb", name: "Continental, dry winter, warm summer", color: [90, 120, 220] },
+  [Koppen.Dwc]: { code: "Dwc", name: "Subarctic, dry winter", color: [75, 80, 180] },
+  [Koppen.Dwd]: { code: "Dwd", name: "Subarctic, dry severe winter", color: [50, 0, 135] },
+  [Koppen.Dfa]: { code: "Dfa", name: "Humid continental, hot summer", color: [0, 255, 255] },
+  [Koppen.Dfb]: { code: "Dfb", name: "Humid continental, warm summer", color: [55, 200, 255] },
+  [Koppen.Dfc]: { code: "Dfc", name: "Subarctic", color: [0, 125, 125] },
+  [Koppen.Dfd]: { code: "Dfd", name: "Subarctic, severe winter", color: [0, 70, 95] },
+  [Koppen.ET]: { code: "ET", name: "Tundra", color: [178, 178, 178] },
+  [Koppen.EF]: { code: "EF", name: "Ice cap", color: [102, 102, 102] },
+};
@@ -0,0 +1,73 @@
+// /src/model/stamps.ts
+// Grayscale heightmap stamps for the stamp brush. Imported images are reduced
+// to 8-bit luminance (what a canvas gives us anyway) and keyed by a hash of
+// those bytes, so the same image always gets the same id and replays the same.
+
+import type { Stamp } from "./types";
+
+/** Longest side kept from an imported image; bigger ones are scaled down. */
+export const STAMP_MAX_SIDE = 256;
+const THUMB_SIDE = 48;
+
+/**
+ * Decode an image file (PNG, or anything the browser reads) into a stamp:
+ * luminance × alpha per pixel, so transparent areas stamp nothing.
+ */
+export async function importStamp(file: File): Promise<Stamp> {
+  const bitmap = await createImageBitmap(file);
+  const k = Math.min(1, STAMP_MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * k));
+  const height = Math.max(1, Math.round(bitmap.height * k));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+
+  const data = new Uint8Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    const lum = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+    data[i] = Math.round((lum * rgba[i * 4 + 3]) / 255);
+  }
+
+  return {
+    id: hashStamp(width, height, data),
+    name: file.name.replace(/\.[^.]+$/, ""),
+    width,
+    height,
+    data,
+    thumbnail: thumbnail(width, height, data),
+  };
+}
+
+// FNV-1a over the size and pixels, as 8 hex digits
+function hashStamp(width: number, height: number, data: Uint8Array) {
+  let h = 0x811c9dc5;
+  const mix = (b: number) => { h = Math.imul(h ^ b, 0x01000193) >>> 0; };
+  for (const v of [width, height]) { mix(v & 255); mix(v >>> 8); }
+  for (let i = 0; i < data.length; i++) mix(data[i]);
+  return h.toString(16).padStart(8, "0");
+}
+
+// Small gray preview as a data URL, for the panel
+function thumbnail(width: number, height: number, data: Uint8Array) {
+  const src = document.createElement("canvas");
+  src.width = width;
+  src.height = height;
+  const img = new ImageData(width, height);
+  for (let i = 0; i < data.length; i++) {
+    img.data[i * 4] = img.data[i * 4 + 1] = img.data[i * 4 + 2] = data[i];
+    img.data[i * 4 + 3] = 255;
+  }
+  src.getContext("2d")!.putImageData(img, 0, 0);
+
+  const k = THUMB_SIDE / Math.max(width, height);
+  const out = document.createElement("canvas");
+  out.width = Math.max(1, Math.round(width * k));
+  out.height = Math.max(1, Math.round(height * k));
+  out.getContext("2d")!.drawImage(src, 0, 0, out.width, out.height);
+  return out.toDataURL("image/png");
+}
@@ -1,31 +1,219 @@
 export type Seed = number;
 
+/** Lattice noise backend fbm2D sums octaves of (see sim/noise.ts). */
+export type NoiseKind = 'value'|'perlin'|'simplex'|'cellular';
+
+/** How fbm2D combines octaves. */
+export type FractalMode = 'fbm'|'ridged'|'billow'|'hybrid';
+
 export type NoiseParams = {
+  kind: NoiseKind;
+  fractal: FractalMode;
   octaves: number; lacunarity: number; gain: number; warp: number;
+  ridgeOffset: number;    // ridged/hybrid: signal offset (~1 ridged, ~0.7 hybrid)
+  ridgeSharpness: number; // ridged: exponent on each ridge, 1..4
+};
+
+/**
+ * Prevailing winds per latitude band (see computeMoisture in sim/climate.ts).
+ * Directions are the way the wind blows *toward*, in degrees: 0 = east,
+ * 90 = equatorward. The southern hemisphere mirrors the northern one.
+ */
+export type WindParams = {
+  trade: number;      // 0–30° latitude (Earth: 135, from the NE)
+  westerly: number;   // 30–60° (Earth: -45, from the SW)
+  polar: number;      // 60–90° (Earth: 135, from the NE)
+  reach: number;      // fraction of the map width air crosses before raining out ~63% of its moisture
+  orographic: number; // extra rain-out per unit of height climbed (wet windward, dry leeward)
 };
 
 export type ClimateParams = {
   seaLevel: number; tempLapse: number; moistureShift: number;
+  continentality: number; // 0..1: inland temperature extremes + dryness, maritime moderation at coasts
+  wind: WindParams;
+};
+
+/** Which map edges are connected: none, cylindrical (X), or toroidal (X and Y). */
+export type WrapMode = 'none'|'x'|'xy';
+
+/** Land/ocean layout mask multiplied into the raw heightfield (see sim/masks.ts). */
+export type MaskKind = 'none'|'continent'|'archipelago'|'coastline'|'painted';
+
+export type MaskParams = {
+  kind: MaskKind;
+  coverage: number; // continent/island radius, or land fraction for coastline (0..1)
+  falloff: number;  // width of the land→ocean transition (0..1)
+  islands: number;  // archipelago: number of island centers
+};
+
+/** Plate-tectonics stage (see sim/tectonics.ts). */
+export type TectonicsParams = {
+  mode: 'off'|'blend'|'replace'; // combine with fBM, or use instead of it
+  plates: number;         // number of Voronoi plates
+  oceanicRatio: number;   // fraction of plates with oceanic crust (0..1)
+  upliftWidth: number;    // boundary feature width as a fraction of map size
+  upliftStrength: number; // height of mountains/trenches per unit convergence
+};
+
+/** Droplet hydraulic erosion (see sim/erosion.ts). */
+export type ErosionParams = {
+  iterations: number;  // droplets per full recompute (0 = off)
+  inertia: number;     // 0..1, how much a droplet keeps its direction
+  capacity: number;    // sediment carried per unit slope·speed·water
+  deposition: number;  // 0..1, fraction of excess sediment dropped per step
+  erosion: number;     // 0..1, fraction of free capacity eroded per step
+  evaporation: number; // 0..1, water lost per step
+};
+
+/** Thermal (talus) erosion (see sim/thermal.ts). */
+export type ThermalParams = {
+  iterations: number; // relaxation passes per full recompute (0 = off)
+  talus: number;      // steepest stable slope, height units per map width
+  rate: number;       // 0..1, share of the excess moved per pass
+};
+
+/** Ocean floor shaping (see sim/bathymetry.ts). Widths are in map widths. */
+export type BathymetryParams = {
+  strength: number;    // 0..1, modelled floor vs. the raw one (0 = off)
+  shelfWidth: number;  // continental shelf, from the shore to the shelf break
+  slopeWidth: number;  // continental slope, from the shelf break to the abyssal plain
+  ridgeHeight: number; // mid-ocean ridge crest, as a fraction of the sea depth
+  trenchDepth: number; // trench depth off mountainous coasts, as a fraction of the sea depth
+};
+
+/** Glacier mass balance, flow and erosion (see sim/glaciers.ts). */
+export type GlacierParams = {
+  iterations: number;   // mass-balance/flow passes per full recompute (0 = off)
+  snowline: number;     // temperature (0..1) below which snow accumulates into ice
+  accumulation: number; // snowfall scale on the accumulation rate
+  flow: number;         // 0..1, how readily ice creeps downslope
+  carve: number;        // 0..1, how deep sliding ice cuts its U-shaped valleys
+};
+
+/** River accumulation inputs (see sim/rivers.ts). */
+export type HydrologyParams = {
+  rainfall: number; // 0..1, how much moisture weights per-cell rain (0 = uniform)
+  loss: number;     // 0..1, scale on the per-biome evaporation/infiltration loss
+};
+
+/** River incision feedback (see sim/incision.ts). */
+export type IncisionParams = {
+  rate: number;     // 0..1, how deep rivers cut their channels (0 = off)
+  width: number;    // valley half-width for the largest river, map widths
+  deltas: boolean;  // build sediment fans where big rivers reach the sea
+};
+
+/** How the map sits on its planet (see computeTemperature in sim/climate.ts). */
+export type PlanetParams = {
+  mode: 'flat'|'sphere';           // sphere: whole planet, equirectangular (x = longitude, y = latitude)
+  span: number;                    // flat: degrees of latitude from top to bottom edge (180 = pole to pole)
+  hemisphere: 'north'|'south';     // flat: which side of the equator SimParams.latitude is on
+  tilt: number;                    // axial tilt in degrees (Earth 23.4); shapes the pole→equator gradient
+  baseTemp: number;                // global temperature offset (0 = Earth-like)
 };
 
 export type SimParams = {
   size: number;    // e.g., 512, 1024 (power of two helps tiling)
+  wrap: WrapMode;
   noise: NoiseParams;
   climate: ClimateParams;
+  mask: MaskParams;
+  tectonics: TectonicsParams;
+  erosion: ErosionParams;
+  thermal: ThermalParams;
+  bathymetry: BathymetryParams;
+  glaciers: GlacierParams;
+  hydrology: HydrologyParams;
+  incision: IncisionParams;
+  planet: PlanetParams;
   seaLevel: number;
-  latitude: number;
+  latitude: number;       // latitude at the map's center, degrees from the equator (0..90)
   riverThreshold: number; // flow needed to “paint” river
 };
 
-export type BrushKind = 'raise'|'lower'|'rain'|'smooth';
-export type Brush = { kind: BrushKind; radius: number; strength: number };
+// 'mask'/'unmask' paint the user mask layer (land / ocean) used by MaskKind 'painted'
+// 'erode' runs hydraulic erosion droplets inside the brush, 'relax' thermal erosion
+export type BrushKind =
+  'raise'|'lower'|'rain'|'smooth'|'mask'|'unmask'|'erode'|'relax'|
+  'flatten'|'terrace'|'noise'|'plateau'|'slope'|'stamp';
+/** Radial weight of a dab, centre → edge (see falloffProfile in sim/brush.ts). */
+export type FalloffProfile = 'cosine' | 'linear' | 'gaussian' | 'sharp' | 'flat' | 'custom';
+/** How the stamp brush combines the stamp with the terrain (see applyBrush). */
+export type StampBlend = 'add' | 'max' | 'min' | 'replace';
+/**
+ * Brush settings. `strength` is the per-dab amount: added height for
+ * raise/lower/noise, the blend toward the target for flatten/terrace/plateau/slope.
+ * The per-kind groups are kept while another kind is selected.
+ */
+export type Brush = {
+  kind: BrushKind; radius: number; strength: number;
+  falloff: { profile: FalloffProfile; curve: number[] }; // curve: custom weights, evenly spaced from centre (first) to edge (last)
+  spacing: number; // dab spacing along a stroke, as a fraction of the radius
+  flow: number;    // strength multiplier per dab; overlapping dabs build up to the full strength
+  pen: { pressureRadius: boolean; pressureStrength: boolean; tiltRadius: boolean }; // pen input scaling each dab
+  flatten: { mode: 'both' | 'cut' | 'fill' };     // toward the height under the stroke's first dab; cut/fill only lowers/raises
+  terrace: { steps: number; sharpness: number };  // steps over 0..1; sharpness 0 = smooth ramps … 1 = near-vertical risers
+  noise: { seed: number; scale: number; octaves: number }; // fBM detail; scale = feature size in cells
+  plateau: { level: number };                     // absolute height peaks are cut down to
+  slope: { ease: number; start?: Dab };           // ease 0 = straight ramp … 1 = smoothstep; start = ramp start relative to the dab (set by the canvas)
+  stamp: { id: string | null; rotation: number; scale: number; blend: StampBlend }; // rotation in degrees; scale = height of white
+};
+
+/**
+ * Grayscale heightmap for the stamp brush (see model/stamps.ts). `data` is
+ * width × height bytes, row-major, 0 = black … 255 = white. `id` hashes the
+ * pixels, so brushes refer to stamps by content.
+ */
+export type Stamp = { id: string; name: string; width: number; height: number; data: Uint8Array; thumbnail: string };
+/**
+ * One brush stamp position in grid cells (fractional). The optional scales
+ * come from pen pressure/tilt and multiply the brush's radius and strength.
+ */
+export type Dab = { x: number; y: number; radiusScale?: number; strengthScale?: number };
+
+/** Half-open interval min ≤ v < max; an omitted bound is open. */
+export type Bounds = { min?: number; max?: number };
+
+/** A climate/terrain region claimed by a biome; every given condition must hold. */
+export type BiomeRegion = {
+  surface?: "land" | "ocean" | "lake" | "ice"; // default "land"; "ice" = glacier-covered land
+  temperature?: Bounds; // 0..1
+  moisture?: Bounds;    // 0..1
+  height?: Bounds;      // absolute height 0..1
+  altitude?: Bounds;    // height above sea level
+};
+
+export type BiomeDef = {
+  name: string;
+  color: [number, number, number];
+  priority?: number;      // lower is tested first; default: list position
+  waterLoss?: number;     // river water lost per cell (× hydrology.loss), default 0
+  regions: BiomeRegion[]; // the biome matches if any region does
+};
+
+/**
+ * Data-driven biome classification (see model/biomes.schema.json). A biome's
+ * id, as stored in fields.biomes, is its index in `biomes`.
+ */
+export type BiomeRules = { version: 1; biomes: BiomeDef[] };
 
 export type Fields = {
   height: Float32Array;      // size*size
   temperature: Float32Array; // derived
   moisture: Float32Array;    // derived
+  humidity: Float32Array;    // air humidity left after rain-out, 0..1 (wind advection state)
+  coastDist: Float32Array;   // distance to the nearest ocean cell in map widths (0 on ocean)
   rivers: Uint8Array;        // mask 0/1
+  flow: Float32Array;        // flow accumulation normalized to 0..1 (discharge)
+  flowDir: Uint8Array;       // D8 receiver direction 0..7, 255 = none (ocean/outlet)
+  lakes: Float32Array;       // water depth in filled basins (0 = dry)
+  ice: Float32Array;         // glacier ice thickness (0 = none)
   biomes: Uint8Array;        // enum index
+  koppen: Uint8Array;        // Köppen-Geiger class (Koppen) from the 12-month climate
+  monthTemp: Float32Array;   // temperature of the month in view, °C
+  monthPrecip: Float32Array; // precipitation of the month in view, mm
+  mask: Float32Array;        // land/ocean mask in effect, 0..1
+  plates: Uint8Array;        // tectonic plate id (0 when tectonics are off)
 };
 
-export type Snapshot = { seed: Seed; params: SimParams; label?: string };
\ No newline at end of file
+export type Snapshot = { seed: Seed; params: SimParams; stamps: Stamp[]; label?: string }; // stamps: so stamp strokes replay after a restore
\ No newline at end of file
@@ -6,6 +6,7 @@ type CameraOpts = {
   minZoom?: number;      // optional clamp
   maxZoom?: number;      // optional clamp
   invertScroll?: boolean;// if you prefer natural/inverted wheel
+  panButtons?: number[]; // mouse buttons that drag the view (default right + middle; left paints)
 };
 
 export function attachCameraControls(
@@ -17,11 +18,20 @@ export function attachCameraControls(
   const minZ = opts.minZoom ?? 0.25;
   const maxZ = opts.maxZoom ?? 8;
 
+  const panButtons = opts.panButtons ?? [1, 2];
+
   let dragging = false;
   let lastX = 0, lastY = 0;
 
+  // Stage camera math works in canvas-relative pixels
+  const local = (e: MouseEvent) => {
+    const r = target.getBoundingClientRect();
+    return { x: e.clientX - r.left, y: e.clientY - r.top };
+  };
+
   // --- Panning (pointer drag)
   const onDown = (e: PointerEvent) => {
+    if (!panButtons.includes(e.button)) return;
     dragging = true;
     lastX = e.clientX;
     lastY = e.clientY;
@@ -38,6 +48,7 @@ export function attachCameraControls(
   };
 
   const onUp = () => { dragging = false; };
+  const onContextMenu = (e: MouseEvent) => e.preventDefault(); // right button pans
 
   // --- Zooming (wheel at cursor)
   const onWheel = (e: WheelEvent) => {
@@ -48,7 +59,8 @@ export function attachCameraControls(
     // optional clamping: read current zoom from Stage if you expose it;
     // if not, you can clamp inside Stage.setZoom instead.
     // We’ll call zoomAt, which should handle clamping internally if you add it there.
-    stage.zoomAt(e.clientX, e.clientY, dir);
+    const p = local(e);
+    stage.zoomAt(p.x, p.y, dir);
   };
 
   target.addEventListener("pointerdown", onDown);
@@ -56,6 +68,7 @@ export function attachCameraControls(
   target.addEventListener("pointerup", onUp);
   target.addEventListener("pointerleave", onUp);
   target.addEventListener("wheel", onWheel, { passive: false });
+  target.addEventListener("contextmenu", onContextMenu);
 
   return {
     destroy() {
@@ -64,6 +77,7 @@ export function attachCameraControls(
       target.removeEventListener("pointerup", onUp);
       target.removeEventListener("pointerleave", onUp);
       target.removeEventListener("wheel", onWheel as any);
+      target.removeEventListener("contextmenu", onContextMenu);
     }
   };
 }
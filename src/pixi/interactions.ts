@@ -1,31 +1,125 @@
-import type { Brush } from "../model/types";
+import type { Brush, Dab } from "../model/types";
+import type { Stage } from "./stage";
 
+/** Tilt (degrees from vertical) at which tiltRadius doubles the radius. */
+const FULL_TILT = 60;
+
+/**
+ * Left-drag painting on `canvas`. Pointer positions go through the stage camera
+ * (Stage.screenToCell), so pan, zoom and worldPixelScale are respected. Fast
+ * moves are filled in with dabs every `brush.spacing` × radius cells along the
+ * path. With a pen, pressure and tilt set each dab's radius/strength scales
+ * (per `brush.pen`), interpolated along the path like the position.
+ * Coordinates are unwrapped cells; the receiver wraps them onto the grid.
+ * Other buttons are left alone (right-drag pans). `endStroke` runs on release,
+ * so one drag becomes one undo step. The slope brush doesn't drag: the first
+ * click marks the ramp's start and the second sends a single dab at its end.
+ * The stamp brush places one stamp per click.
+ * Returns a detach function.
+ */
 export const attachBrushHandlers = (
   canvas: HTMLCanvasElement,
-  sendBrush: (x: number, y: number, brush: Brush) => void,
+  stage: Stage,
+  sendDabs: (dabs: Dab[], brush: Brush) => void,
   getBrush: () => Brush,
-  size: number
+  endStroke: () => void = () => {}
 ) => {
-  let painting = false;
+  let pointerId: number | null = null;
+  let last: Dab | null = null;
+  let carry = 0; // path length since the last dab
+  let slopeStart: Dab | null = null; // first click of a slope brush
 
-  const evtToWorld = (e: PointerEvent) => {
+  const evtToDab = (e: PointerEvent, brush: Brush): Dab => {
     const r = canvas.getBoundingClientRect();
-    const x = Math.floor(((e.clientX - r.left) / r.width) * size);
-    const y = Math.floor(((e.clientY - r.top) / r.height) * size);
-    return { x, y };
-  }
-
-  canvas.addEventListener("pointerdown", (e) => {
-    painting = true;
-    const p = evtToWorld(e);
-    sendBrush(p.x, p.y, getBrush());
-  });
-
-  canvas.addEventListener("pointermove", (e) => {
-    if (!painting) return;
-    const p = evtToWorld(e);
-    sendBrush(p.x, p.y, getBrush());
-  });
-
-  window.addEventListener("pointerup", () => { painting = false; });
+    const p: Dab = stage.screenToCell(e.clientX - r.left, e.clientY - r.top);
+    // mice report a fixed 0.5 pressure while pressed, so only pens modulate
+    if (e.pointerType !== "pen") return p;
+    const { pressureRadius, pressureStrength, tiltRadius } = brush.pen;
+    const pressure = e.pressure || 1; // 0 from pens that don't report it
+    const tilt = Math.min(1, Math.hypot(e.tiltX || 0, e.tiltY || 0) / FULL_TILT);
+    p.radiusScale = (pressureRadius ? Math.max(0.05, pressure) : 1) * (tiltRadius ? 1 + tilt : 1);
+    p.strengthScale = pressureStrength ? pressure : 1;
+    return p;
+  };
+
+  const onDown = (e: PointerEvent) => {
+    if (e.button !== 0 || pointerId !== null) return;
+    const brush = getBrush();
+    if (brush.kind === "slope") {
+      const p = evtToDab(e, brush);
+      if (!slopeStart) { slopeStart = p; return; }
+      const start = { x: slopeStart.x - p.x, y: slopeStart.y - p.y };
+      slopeStart = null;
+      sendDabs([p], { ...brush, slope: { ...brush.slope, start } });
+      endStroke();
+      return;
+    }
+    slopeStart = null;
+    if (brush.kind === "stamp") {
+      sendDabs([evtToDab(e, brush)], brush);
+      endStroke();
+      return;
+    }
+    pointerId = e.pointerId;
+    canvas.setPointerCapture?.(e.pointerId);
+    last = evtToDab(e, brush);
+    carry = 0;
+    sendDabs([last], brush);
+  };
+
+  const lerp = (a: number | undefined, b: number | undefined, k: number) =>
+    a === undefined || b === undefined ? b : a + (b - a) * k;
+
+  // Walk from `last` to `p`, dropping a dab every `step` cells of travelled path
+  const walkTo = (p: Dab, brush: Brush, dabs: Dab[]) => {
+    if (!last) return;
+    const step = Math.max(1, brush.radius * (p.radiusScale ?? 1) * brush.spacing);
+    const dx = p.x - last.x, dy = p.y - last.y;
+    const len = Math.hypot(dx, dy);
+    let t = step - carry;
+    for (; t <= len; t += step) {
+      const k = t / len;
+      dabs.push({
+        x: last.x + dx * k,
+        y: last.y + dy * k,
+        radiusScale: lerp(last.radiusScale, p.radiusScale, k),
+        strengthScale: lerp(last.strengthScale, p.strengthScale, k),
+      });
+    }
+    carry = len - (t - step);
+    last = p;
+  };
+
+  const onMove = (e: PointerEvent) => {
+    if (e.pointerId !== pointerId || !last) return;
+    const brush = getBrush();
+    const dabs: Dab[] = [];
+    // pens report far more samples than move events; use them all
+    const events = e.getCoalescedEvents?.() ?? [];
+    for (const ev of events.length ? events : [e]) walkTo(evtToDab(ev, brush), brush, dabs);
+    if (dabs.length) sendDabs(dabs, brush);
+  };
+
+  const onUp = (e: PointerEvent) => {
+    if (e.pointerId !== pointerId) return;
+    pointerId = null;
+    last = null;
+    endStroke();
+  };
+
+  // otherwise the browser claims pen/touch drags for scrolling (pointercancel)
+  const prevTouchAction = canvas.style.touchAction;
+  canvas.style.touchAction = "none";
+  canvas.addEventListener("pointerdown", onDown);
+  canvas.addEventListener("pointermove", onMove);
+  canvas.addEventListener("pointerup", onUp);
+  canvas.addEventListener("pointercancel", onUp);
+
+  return () => {
+    canvas.removeEventListener("pointerdown", onDown);
+    canvas.removeEventListener("pointermove", onMove);
+    canvas.removeEventListener("pointerup", onUp);
+    canvas.removeEventListener("pointercancel", onUp);
+    canvas.style.touchAction = prevTouchAction;
+  };
 }
@@ -0,0 +1,73 @@
+// /src/pixi/projections.ts
+// CPU reprojection of an equirectangular size×size map (x = longitude -180..180,
+// y = latitude 90..-90) for the planet preview. Nearest-neighbour sampling;
+// pixels outside the projected planet are left transparent.
+
+export type Projection = "globe" | "equirectangular" | "mollweide";
+
+const DEG = Math.PI / 180;
+
+// Copy the source texel at (lon, lat) in radians into out pixel `o`
+function sample(src: Uint8Array, size: number, lon: number, lat: number, out: Uint8ClampedArray, o: number, shade = 1) {
+  let u = (lon / (2 * Math.PI) + 0.5) % 1;
+  if (u < 0) u += 1;
+  const x = Math.min(size - 1, Math.floor(u * size));
+  const y = Math.min(size - 1, Math.max(0, Math.floor((0.5 - lat / Math.PI) * size)));
+  const s = (y * size + x) * 4;
+  out[o] = src[s] * shade;
+  out[o + 1] = src[s + 1] * shade;
+  out[o + 2] = src[s + 2] * shade;
+  out[o + 3] = 255;
+}
+
+/** Plate carrée at the output's own aspect (2:1 shows true proportions). */
+export function projectEquirectangular(src: Uint8Array, size: number, out: Uint8ClampedArray, w: number, h: number) {
+  for (let v = 0; v < h; v++) {
+    const lat = (0.5 - (v + 0.5) / h) * Math.PI;
+    for (let u = 0; u < w; u++) {
+      sample(src, size, ((u + 0.5) / w - 0.5) * 2 * Math.PI, lat, out, (v * w + u) * 4);
+    }
+  }
+}
+
+/** Mollweide equal-area ellipse filling a 2:1 output. */
+export function projectMollweide(src: Uint8Array, size: number, out: Uint8ClampedArray, w: number, h: number) {
+  const R2 = Math.SQRT2;
+  for (let v = 0; v < h; v++) {
+    const y = (1 - (2 * (v + 0.5)) / h) * R2;  // -√2..√2
+    const theta = Math.asin(Math.max(-1, Math.min(1, y / R2)));
+    const lat = Math.asin(Math.max(-1, Math.min(1, (2 * theta + Math.sin(2 * theta)) / Math.PI)));
+    for (let u = 0; u < w; u++) {
+      const o = (v * w + u) * 4;
+      const x = ((2 * (u + 0.5)) / w - 1) * 2 * R2; // -2√2..2√2
+      const lon = (Math.PI * x) / (2 * R2 * Math.cos(theta));
+      if (Math.abs(lon) > Math.PI) { out[o + 3] = 0; continue; }
+      sample(src, size, lon, lat, out, o);
+    }
+  }
+}
+
+/**
+ * Orthographic globe centered on (`lon0`, `lat0`) degrees, with a little limb
+ * darkening so it reads as a sphere.
+ */
+export function projectGlobe(
+  src: Uint8Array, size: number, out: Uint8ClampedArray, w: number, h: number, lon0: number, lat0: number
+) {
+  const r = Math.min(w, h) / 2 - 1;
+  const sinC = Math.sin(lat0 * DEG), cosC = Math.cos(lat0 * DEG);
+  for (let v = 0; v < h; v++) {
+    const py = (h / 2 - (v + 0.5)) / r;
+    for (let u = 0; u < w; u++) {
+      const o = (v * w + u) * 4;
+      const px = (u + 0.5 - w / 2) / r;
+      const rho2 = px * px + py * py;
+      if (rho2 > 1) { out[o + 3] = 0; continue; }
+      const z = Math.sqrt(1 - rho2); // toward the viewer
+      // rotate the view-space point back by the center latitude
+      const lat = Math.asin(py * cosC + z * sinC);
+      const lon = lon0 * DEG + Math.atan2(px, z * cosC - py * sinC);
+      sample(src, size, lon, lat, out, o, 0.55 + 0.45 * z);
+    }
+  }
+}
@@ -1,8 +1,12 @@
 // /src/pixi/stage.ts (Pixi v8)
-import { Application, Container, Sprite, Texture, SCALE_MODES } from "pixi.js";
+import { Application, Container, TilingSprite, Texture, SCALE_MODES } from "pixi.js";
+import type { WrapMode } from "../model/types";
 
 export type FitMode = "cover" | "contain";
 
+/** Toggleable layers drawn above terrain + rivers. */
+export type OverlayKind = "biomes" | "mask" | "plates" | "wind" | "coast" | "koppen" | "monthTemp" | "monthPrecip" | "ice";
+
 export type Stage = {
   root: Container;                       // world container (scaled & positioned)
   setWorldSize: (n: number) => void;
@@ -11,7 +15,11 @@ export type Stage = {
   setBiomeTexture: (t: Texture) => void;
   setRiversTexture: (t: Texture) => void;
   setTerrainTexture: (t: Texture) => void;
+  setOverlayTexture: (kind: OverlayKind, t: Texture) => void;
+  setOverlayVisible: (kind: OverlayKind, visible: boolean) => void;
   setWorldPixelScale: (s: number) => void;
+  setWrap: (w: WrapMode) => void;        // repeat layers + endless pan on wrapped axes
+  setRowScale: (k: number) => void;      // rows drawn k× as tall as columns are wide (see rowSpacing)
   resize: () => void;
 
   // Camera / interaction:
@@ -20,6 +28,7 @@ export type Stage = {
   panBy: (dx: number, dy: number) => void;
   screenToWorld: (sx: number, sy: number) => { x: number; y: number };
   worldToScreen: (wx: number, wy: number) => { x: number; y: number };
+  screenToCell: (sx: number, sy: number) => { x: number; y: number }; // sim cells, unwrapped (may be <0 or >=size when wrapped)
 
   destroy: () => void;
 };
@@ -29,14 +38,37 @@ export function createStage(app: Application, worldSizeInit: number): Stage {
   app.stage.addChild(root);
 
   // layers (add a real terrain layer)
-  const height  = new Sprite();
-  const biome   = new Sprite();
-  const rivers  = new Sprite();
-  const terrain = new Sprite();  // <-- add
+  // TilingSprites so wrapped worlds can repeat the texture past the seam;
+  // unwrapped they are sized to exactly one world and behave like Sprites.
+  const height  = new TilingSprite();
+  const biome   = new TilingSprite();
+  const rivers  = new TilingSprite();
+  const terrain = new TilingSprite();  // <-- add
   root.addChild(terrain, rivers, biome, height); // order: terrain under rivers, etc.
 
+  // overlays sit on top and start hidden
+  const overlays: Record<OverlayKind, TilingSprite> = {
+    biomes: new TilingSprite(),
+    mask: new TilingSprite(),
+    plates: new TilingSprite(),
+    wind: new TilingSprite(),
+    coast: new TilingSprite(),
+    koppen: new TilingSprite(),
+    monthTemp: new TilingSprite(),
+    monthPrecip: new TilingSprite(),
+    ice: new TilingSprite(),
+  };
+  for (const o of Object.values(overlays)) {
+    o.visible = false;
+    root.addChild(o);
+  }
+  const allLayers = () => [height, biome, rivers, terrain, ...Object.values(overlays)];
+
   let worldSize = worldSizeInit;
+  let rowScale = 1;
   let fitMode: FitMode = "cover";
+  let wrap: WrapMode = "none";
+  const WRAP_COPIES = 3; // world copies drawn along a wrapped axis (covers any pan offset)
 
   let fitScale = 1;
   let userZoom = 1;
@@ -48,6 +80,7 @@ export function createStage(app: Application, worldSizeInit: number): Stage {
   let worldPixelScale = 4; // e.g. 4 px per sim sample
 
   function worldSizePx() { return worldSize * worldPixelScale; }
+  function worldHeightPx() { return worldSize * worldPixelScale * rowScale; }
 
   function currentScale() { return fitScale * userZoom; }
   function clampZoom(z: number) {
@@ -67,16 +100,16 @@ export function createStage(app: Application, worldSizeInit: number): Stage {
     const w = app.renderer.width, h = app.renderer.height;
     if (!w || !h || !worldSize) return;
 
-    const wp = worldSizePx();
-    const sContain = Math.min(w, h) / wp;
-    const sCover   = Math.max(w, h) / wp;
+    const wp = worldSizePx(), hp = worldHeightPx();
+    const sContain = Math.min(w / wp, h / hp);
+    const sCover   = Math.max(w / wp, h / hp);
     fitScale = (fitMode === "cover" ? sCover : sContain);
 
     setZoom(userZoom); // re-apply with clamp
 
     if (!initialized) {
-      const worldPxScaled = wp * currentScale();
-      root.position.set((w - worldPxScaled) * 0.5, (h - worldPxScaled) * 0.5);
+      const s = currentScale();
+      root.position.set((w - wp * s) * 0.5, (h - hp * s) * 0.5);
       initialized = true;
     }
     clampPan();
@@ -87,8 +120,12 @@ export function createStage(app: Application, worldSizeInit: number): Stage {
     resize();  // setZoom() is called inside resize()
   }
 
-  function applyTexture(s: Sprite, t: Texture) {
+  function applyTexture(s: TilingSprite, t: Texture) {
+    const old = s.texture;
     s.texture = t;
+    // Every result brings fresh textures: free the replaced one's GPU memory
+    // (the shared empty/white defaults stay)
+    if (old !== t && old !== Texture.EMPTY && old !== Texture.WHITE) old.destroy(true);
     // For crisp tiles, prefer NEAREST. Keep LINEAR if you want smooth.
     s.texture.source.scaleMode = SCALE_MODES.NEAREST;
     sizeLayerToWorld(s); // <-- size sprite to world pixels
@@ -99,34 +136,65 @@ export function createStage(app: Application, worldSizeInit: number): Stage {
   function setHeightTexture(t: Texture)  { applyTexture(height,  t); }
   function setBiomeTexture(t: Texture)   { applyTexture(biome,   t); }
   function setRiversTexture(t: Texture)  { applyTexture(rivers,  t); }
+  function setOverlayTexture(kind: OverlayKind, t: Texture) { applyTexture(overlays[kind], t); }
+  function setOverlayVisible(kind: OverlayKind, visible: boolean) { overlays[kind].visible = visible; }
 
   function setWorldPixelScale(s: number) {
     worldPixelScale = Math.max(1, s | 0);
-    [height, biome, rivers, terrain].forEach(sizeLayerToWorld);
+    allLayers().forEach(sizeLayerToWorld);
+    resize();
+  }
+
+  function setRowScale(k: number) {
+    if (k === rowScale) return;
+    rowScale = k;
+    allLayers().forEach(sizeLayerToWorld);
     resize();
   }
 
-  function sizeLayerToWorld(s: Sprite) {
-    s.width = worldSizePx();
-    s.height = worldSizePx();
+  function setWrap(w: WrapMode) {
+    if (w === wrap) return;
+    wrap = w;
+    allLayers().forEach(sizeLayerToWorld);
+    clampPan();
+  }
+
+  function sizeLayerToWorld(s: TilingSprite) {
+    const wp = worldSizePx(), hp = worldHeightPx();
+    s.width  = wrap !== "none" ? wp * WRAP_COPIES : wp;
+    s.height = wrap === "xy"   ? hp * WRAP_COPIES : hp;
+    // one texture repeat == one world
+    s.tileScale.set(wp / (s.texture.width || worldSize), hp / (s.texture.height || worldSize));
   }
 
   function clampPan() {
     const s = currentScale();
-    const worldPx = worldSizePx() * s;
+    const worldPx = worldSizePx() * s, worldPy = worldHeightPx() * s;
     const w = app.renderer.width, h = app.renderer.height;
-    const minX = Math.min(0, w - worldPx), maxX = 0;
-    const minY = Math.min(0, h - worldPx), maxY = 0;
-    if (root.position.x < minX) root.position.x = minX;
-    if (root.position.x > maxX) root.position.x = maxX;
-    if (root.position.y < minY) root.position.y = minY;
-    if (root.position.y > maxY) root.position.y = maxY;
+    // Wrapped axes: keep the offset within one world width; the repeated
+    // layers make the jump invisible, so panning never hits an edge.
+    if (wrap !== "none") {
+      root.position.x %= worldPx;
+      if (root.position.x > 0) root.position.x -= worldPx;
+    } else {
+      const minX = Math.min(0, w - worldPx), maxX = 0;
+      if (root.position.x < minX) root.position.x = minX;
+      if (root.position.x > maxX) root.position.x = maxX;
+    }
+    if (wrap === "xy") {
+      root.position.y %= worldPy;
+      if (root.position.y > 0) root.position.y -= worldPy;
+    } else {
+      const minY = Math.min(0, h - worldPy), maxY = 0;
+      if (root.position.y < minY) root.position.y = minY;
+      if (root.position.y > maxY) root.position.y = maxY;
+    }
   }
 
   function setWorldSize(n: number) {
     worldSize = n;
     // keep all layers sized to new world size
-    [height, biome, rivers, terrain].forEach(sizeLayerToWorld);
+    allLayers().forEach(sizeLayerToWorld);
     resize();
   }
 
@@ -157,8 +225,15 @@ export function createStage(app: Application, worldSizeInit: number): Stage {
     return { x: wx * s + root.position.x, y: wy * s + root.position.y };
   }
 
+  // Fractional simulation cell under a canvas-relative screen point. Wrapped
+  // layers repeat, so the result is continuous across copies (wrap it before use).
+  function screenToCell(sx: number, sy: number) {
+    const w = screenToWorld(sx, sy);
+    return { x: w.x / worldPixelScale, y: w.y / (worldPixelScale * rowScale) };
+  }
+
   function destroy() {
-    for (const spr of [height, biome, rivers, terrain]) {
+    for (const spr of allLayers()) {
       const src = spr.texture?.source as { destroy?: () => void } | undefined;
       spr.texture?.destroy();
       src?.destroy?.();
@@ -176,13 +251,18 @@ export function createStage(app: Application, worldSizeInit: number): Stage {
     setBiomeTexture,
     setRiversTexture,
     setTerrainTexture,
+    setOverlayTexture,
+    setOverlayVisible,
     setWorldPixelScale,
+    setWrap,
+    setRowScale,
     resize,
     setZoom,
     zoomAt,
     panBy,
     screenToWorld,
     worldToScreen,
+    screenToCell,
     destroy,
   };
 }
@@ -1,6 +1,9 @@
 // /src/pixi/textures.ts (Pixi v8)
 import { Texture, BufferImageSource } from "pixi.js";
-import type { Fields } from "../model/types";
+import type { Fields, SimParams, WrapMode } from "../model/types";
+import { LAKE_MIN_DEPTH } from "../sim/rivers";
+import { prevailingWind, rowLatitude } from "../sim/climate";
+import { Koppen, KOPPEN_INFO, MARINE } from "../model/constants";
 
 function blendColors(c1: number, c2: number, t: number) {
   const r = ((c1 >> 16) & 255) * (1 - t) + ((c2 >> 16) & 255) * t;
@@ -75,16 +78,20 @@ export function textureFromBiomes(
 
 /** Rivers overlay that:
  *  - draws rivers only on land (height >= seaLevel)
+ *  - scales width and opacity with discharge (`flow`, normalized accumulation):
+ *    headwaters are thin and faint, trunk rivers wide and solid
  *  - adds a darkened "plume" into nearby ocean pixels at mouths
  */
 export function textureFromRiversNice(
   height: Float32Array,
   rivers: Uint8Array,
+  flow: Float32Array,
   size: number,
   seaLevel?: number,
   waterShallow: number = 0x1e4f7a, // keep consistent w/ terrain palette
   plumeDarken = 0.25,              // how much to darken plume vs base water
-  plumeRadius = 2                  // how far into ocean (in pixels)
+  plumeRadius = 2,                 // how far into ocean (in pixels)
+  maxWidth = 2.5                   // radius (px) of the largest river
 ): Texture {
   const H = height;
   const SL = seaLevel ?? medianHeight(H);
@@ -96,17 +103,40 @@ export function textureFromRiversNice(
   const inBounds = (x: number, y: number) => x >= 0 && x < size && y >= 0 && y < size;
   const at = (x: number, y: number) => y * size + x;
 
-  // Pass 1: draw rivers only on land as semi-transparent blue
-  for (let i = 0; i < size * size; i++) {
-    if (!rivers[i]) continue;
-    if (H[i] < SL) continue; // mask out ocean
-
-    const j = idx4(i);
-    // nice blue; tweak if you prefer
-    buf[j + 0] = 0;     // R
-    buf[j + 1] = 120;   // G
-    buf[j + 2] = 255;   // B
-    buf[j + 3] = 200;   // A
+  // Discharge range over river cells; the smallest is the river threshold
+  let minQ = Infinity;
+  for (let i = 0; i < size * size; i++) if (rivers[i] && flow[i] > 0 && flow[i] < minQ) minQ = flow[i];
+  const logSpan = minQ < 1 ? Math.log(1 / minQ) : 1;
+
+  // Pass 1: draw rivers only on land as semi-transparent blue disks whose
+  // radius/alpha grow with log discharge
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = at(x, y);
+      if (!rivers[i]) continue;
+      if (H[i] < SL) continue; // mask out ocean
+
+      const q = Math.min(1, Math.max(0, Math.log(flow[i] / minQ) / logSpan)); // 0 headwater → 1 trunk
+      const r = 0.5 + q * (maxWidth - 0.5);
+      const alpha = Math.floor(110 + 120 * q);
+      const ri = Math.ceil(r - 0.5);
+      for (let oy = -ri; oy <= ri; oy++) {
+        for (let ox = -ri; ox <= ri; ox++) {
+          const nx = x + ox, ny = y + oy;
+          if (!inBounds(nx, ny)) continue;
+          if (ox * ox + oy * oy > r * r) continue;
+          const k = at(nx, ny);
+          if (H[k] < SL) continue;
+          const j = idx4(k);
+          if (buf[j + 3] >= alpha) continue; // keep the strongest river on overlap
+          // nice blue; tweak if you prefer
+          buf[j + 0] = 0;     // R
+          buf[j + 1] = 120;   // G
+          buf[j + 2] = 255;   // B
+          buf[j + 3] = alpha; // A
+        }
+      }
+    }
   }
 
   // Pass 2: add a mouth/plume where land-river touches ocean
@@ -176,6 +206,156 @@ export function textureFromRivers(rivers: Uint8Array, size: number): Texture {
   return textureFromRGBA(buf, size);
 }
 
+/**
+ * Land/ocean mask overlay: transparent where the mask keeps land,
+ * increasingly opaque magenta where it pushes terrain under the sea.
+ */
+export function textureFromMask(mask: Float32Array, size: number): Texture {
+  const buf = new Uint8Array(size * size * 4);
+  for (let i = 0; i < size * size; i++) {
+    const m = mask[i] < 0 ? 0 : mask[i] > 1 ? 1 : mask[i];
+    const j = i * 4;
+    buf[j] = 200; buf[j + 1] = 40; buf[j + 2] = 160; buf[j + 3] = ((1 - m) * 150) | 0;
+  }
+  return textureFromRGBA(buf, size);
+}
+
+/**
+ * Tectonic plate overlay: a hashed tint per plate id with darker boundary lines.
+ */
+export function textureFromPlates(plates: Uint8Array, size: number): Texture {
+  const buf = new Uint8Array(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = y * size + x;
+      const id = plates[i];
+      const c = Math.floor(detailNoise(id, id * 7 + 3, 0x2f) * 0xffffff);
+      const edge =
+        (x + 1 < size && plates[i + 1] !== id) ||
+        (y + 1 < size && plates[i + size] !== id);
+      const j = i * 4;
+      buf[j] = edge ? 20 : (c >> 16) & 255;
+      buf[j + 1] = edge ? 20 : (c >> 8) & 255;
+      buf[j + 2] = edge ? 20 : c & 255;
+      buf[j + 3] = edge ? 220 : 110;
+    }
+  }
+  return textureFromRGBA(buf, size);
+}
+
+/**
+ * Distance-to-ocean overlay: transparent over the ocean, teal on maritime
+ * coasts fading to amber deep inland (`scale` map widths for full amber).
+ */
+export function textureFromCoastDistance(coastDist: Float32Array, size: number, scale = 0.25): Texture {
+  const buf = new Uint8Array(size * size * 4);
+  for (let i = 0; i < size * size; i++) {
+    const d = coastDist[i];
+    const j = i * 4;
+    if (d === 0) continue;
+    const t = Math.min(1, d / scale); // Infinity (no ocean) → 1
+    const c = blendColors(0x20b2aa, 0xe08a1e, t);
+    buf[j] = (c >> 16) & 255; buf[j + 1] = (c >> 8) & 255; buf[j + 2] = c & 255; buf[j + 3] = 150;
+  }
+  return textureFromRGBA(buf, size);
+}
+
+/** Glacier overlay: transparent without ice, pale to deep blue with thickness (`scale` for full blue). */
+export function textureFromIce(ice: Float32Array, size: number, scale = 0.1): Texture {
+  const buf = new Uint8Array(size * size * 4);
+  for (let i = 0; i < size * size; i++) {
+    if (ice[i] === 0) continue;
+    const c = blendColors(0xe8f4ff, 0x2a6fc9, Math.min(1, ice[i] / scale));
+    const j = i * 4;
+    buf[j] = (c >> 16) & 255; buf[j + 1] = (c >> 8) & 255; buf[j + 2] = c & 255; buf[j + 3] = 190;
+  }
+  return textureFromRGBA(buf, size);
+}
+
+/** Köppen-Geiger overlay: class colors from KOPPEN_INFO, transparent over the ocean. */
+export function textureFromKoppen(koppen: Uint8Array, size: number): Texture {
+  const buf = new Uint8Array(size * size * 4);
+  for (let i = 0; i < size * size; i++) {
+    const k = koppen[i] as Koppen;
+    if (k === Koppen.None) continue;
+    const [r, g, b] = KOPPEN_INFO[k].color;
+    const j = i * 4;
+    buf[j] = r; buf[j + 1] = g; buf[j + 2] = b; buf[j + 3] = 200;
+  }
+  return textureFromRGBA(buf, size);
+}
+
+/** Monthly temperature overlay (°C): blue below freezing through white at 0 °C to red at 35 °C. */
+export function textureFromMonthTemp(temp: Float32Array, size: number): Texture {
+  const buf = new Uint8Array(size * size * 4);
+  for (let i = 0; i < size * size; i++) {
+    const t = temp[i];
+    const c = t < 0
+      ? blendColors(0xffffff, 0x2040c0, Math.min(1, -t / 30))
+      : blendColors(0xffffff, 0xc02020, Math.min(1, t / 35));
+    const j = i * 4;
+    buf[j] = (c >> 16) & 255; buf[j + 1] = (c >> 8) & 255; buf[j + 2] = c & 255; buf[j + 3] = 170;
+  }
+  return textureFromRGBA(buf, size);
+}
+
+/** Monthly precipitation overlay (mm): tan when dry, green, then deep blue at 250 mm. */
+export function textureFromMonthPrecip(precip: Float32Array, size: number): Texture {
+  const buf = new Uint8Array(size * size * 4);
+  for (let i = 0; i < size * size; i++) {
+    const t = Math.min(1, precip[i] / 250);
+    const c = t < 0.4
+      ? blendColors(0xd8b878, 0x4caf50, t / 0.4)
+      : blendColors(0x4caf50, 0x1a3a9c, (t - 0.4) / 0.6);
+    const j = i * 4;
+    buf[j] = (c >> 16) & 255; buf[j + 1] = (c >> 8) & 255; buf[j + 2] = c & 255; buf[j + 3] = 170;
+  }
+  return textureFromRGBA(buf, size);
+}
+
+/**
+ * Prevailing-wind overlay: a grid of arrows pointing downwind, one every
+ * `spacing` cells, drawn with a dark outline so they read on any terrain.
+ */
+export function textureFromWind(size: number, params: SimParams, spacing = Math.max(8, size >> 4)): Texture {
+  const buf = new Uint8Array(size * size * 4);
+  const plot = (x: number, y: number, v: number, a: number) => {
+    const xi = Math.round(x), yi = Math.round(y);
+    if (xi < 0 || yi < 0 || xi >= size || yi >= size) return;
+    const j = (yi * size + xi) * 4;
+    if (buf[j + 3] > 0 && buf[j] >= v) return; // outline never covers the arrow
+    buf[j] = v; buf[j + 1] = v; buf[j + 2] = v; buf[j + 3] = a;
+  };
+  const line = (x0: number, y0: number, x1: number, y1: number, v: number, a: number, thick: number) => {
+    const steps = Math.max(1, Math.ceil(Math.hypot(x1 - x0, y1 - y0)));
+    for (let s = 0; s <= steps; s++) {
+      const x = x0 + ((x1 - x0) * s) / steps, y = y0 + ((y1 - y0) * s) / steps;
+      for (let oy = -thick; oy <= thick; oy++)
+        for (let ox = -thick; ox <= thick; ox++) plot(x + ox, y + oy, v, a);
+    }
+  };
+
+  const len = spacing * 0.7;
+  const head = len * 0.35;
+  for (let pass = 0; pass < 2; pass++) {
+    const v = pass === 0 ? 20 : 245, a = pass === 0 ? 160 : 230, thick = pass === 0 ? 1 : 0;
+    for (let cy = spacing >> 1; cy < size; cy += spacing) {
+      const w = prevailingWind(rowLatitude(cy, size, params), params.climate.wind);
+      for (let cx = spacing >> 1; cx < size; cx += spacing) {
+        const x0 = cx - (w.x * len) / 2, y0 = cy - (w.y * len) / 2;
+        const x1 = cx + (w.x * len) / 2, y1 = cy + (w.y * len) / 2;
+        line(x0, y0, x1, y1, v, a, thick);
+        // arrowhead: two barbs at ±150° from the direction
+        for (const s of [-1, 1]) {
+          const ang = Math.atan2(w.y, w.x) + s * (Math.PI * 5) / 6;
+          line(x1, y1, x1 + Math.cos(ang) * head, y1 + Math.sin(ang) * head, v, a, thick);
+        }
+      }
+    }
+  }
+  return textureFromRGBA(buf, size);
+}
+
 /** Convenience: build all three textures from Fields. */
 export function texturesFromFields(
   fields: Fields,
@@ -189,22 +369,42 @@ export function texturesFromFields(
   };
 }
 
+type TerrainOpts = {
+  seaLevel?: number;     // if omitted, we auto-derive
+  contour?: boolean;
+  textureAmount?: number; // 0..0.2
+  shadeStrength?: number; // default 5.0
+  normalize?: boolean;    // optional
+  wrap?: WrapMode;        // hillshade reads across wrapped edges
+  lakes?: Float32Array;   // water depth per cell; drawn as flat lake water
+  temperature?: Float32Array; // annual temperature; adds reefs and sea ice to the ocean (see MARINE)
+  ice?: Float32Array;     // glacier thickness; drawn as ice over the land
+};
+
 export function textureFromTerrain(
   height: Float32Array,
   size: number,
   seed: number,
-  opts?: {
-    seaLevel?: number;     // if omitted, we auto-derive
-    contour?: boolean;
-    textureAmount?: number; // 0..0.2
-    shadeStrength?: number; // default 5.0
-    normalize?: boolean;    // optional
-  }
+  opts?: TerrainOpts
 ): Texture {
+  return textureFromRGBA(terrainRGBA(height, size, seed, opts), size);
+}
+
+/** Shaded terrain colors as an RGBA buffer (size² × 4), e.g. for reprojection. */
+export function terrainRGBA(
+  height: Float32Array,
+  size: number,
+  seed: number,
+  opts?: TerrainOpts
+): Uint8Array {
   const doContours   = opts?.contour ?? true;
   const textureAmt   = opts?.textureAmount ?? 0.08;
   const shadeK       = opts?.shadeStrength ?? 5.0;
   const normalize    = opts?.normalize ?? false;
+  const wrap         = opts?.wrap ?? "none";
+  const lakes        = opts?.lakes;
+  const temperature  = opts?.temperature;
+  const ice          = opts?.ice;
 
   // optional normalization to [0,1]
   let H = height;
@@ -229,12 +429,18 @@ export function textureFromTerrain(
   const GRASS_HI   = 0x93b46b;
   const ROCK       = 0x7f7f7f;
   const SNOW       = 0xf2f6f8;
+  const LAKE_SHAL   = 0x3f8fae;
+  const LAKE_DEEP   = 0x1b4d6e;
+  const SHELF       = 0x2f86a8;
+  const REEF        = 0x46c2b4;
+  const SEA_ICE     = 0xdce8f0;
+  const GLACIER     = 0xe4eef6;
 
   const buf = new Uint8Array(size * size * 4);
 
   const hAt = (xx: number, yy: number) => {
-    const x = xx < 0 ? 0 : xx >= size ? size - 1 : xx;
-    const y = yy < 0 ? 0 : yy >= size ? size - 1 : yy;
+    const x = wrap !== "none" ? (xx + size) % size : xx < 0 ? 0 : xx >= size ? size - 1 : xx;
+    const y = wrap === "xy"   ? (yy + size) % size : yy < 0 ? 0 : yy >= size ? size - 1 : yy;
     return H[y * size + x];
   };
 
@@ -245,21 +451,37 @@ export function textureFromTerrain(
 
       // base color
       let base: number;
-      if (e < seaLevel) {
-        const t = Math.min(1, (seaLevel - e) / Math.max(1e-6, seaLevel));
-        base = blendColors(WATER_SHAL, WATER_DEEP, t);
+      const lakeDepth = lakes && e >= seaLevel ? lakes[i] : 0;
+      const seaIce = e < seaLevel && temperature !== undefined && temperature[i] < MARINE.seaIceTemp;
+      if (lakeDepth > LAKE_MIN_DEPTH) {
+        // lakes: flat water surface, darker with depth (no hillshade/contours below)
+        base = blendColors(LAKE_SHAL, LAKE_DEEP, Math.min(1, lakeDepth / 0.05));
+      } else if (seaIce) {
+        base = SEA_ICE; // flat like lakes
+      } else if (e < seaLevel) {
+        const depth = seaLevel - e;
+        const t = Math.min(1, depth / Math.max(1e-6, seaLevel));
+        if (temperature && depth < MARINE.reefDepth && temperature[i] >= MARINE.reefTemp) {
+          base = blendColors(REEF, SHELF, depth / MARINE.reefDepth);
+        } else if (depth < MARINE.shelfDepth) {
+          base = blendColors(SHELF, WATER_SHAL, depth / MARINE.shelfDepth);
+        } else {
+          base = blendColors(WATER_SHAL, WATER_DEEP, t);
+        }
       } else {
         const t = Math.min(1, (e - seaLevel) / Math.max(1e-6, 1 - seaLevel));
         if (t < 0.10)      base = blendColors(SAND_LO,  GRASS_LO, t / 0.10);
         else if (t < 0.60) base = blendColors(GRASS_LO, GRASS_HI, (t - 0.10) / 0.50);
         else if (t < 0.85) base = blendColors(ROCK,     GRASS_HI, (0.85 - t) / 0.25);
         else               base = blendColors(ROCK,     SNOW,      (t - 0.85) / 0.15);
+        // glaciers: opaque once a few hundredths thick, thin ice lets the ground through
+        if (ice && ice[i] > 0) base = blendColors(base, GLACIER, Math.min(1, ice[i] / 0.02));
       }
 
-      // hill shading
+      // hill shading (lake and ice surfaces are flat)
       const dx = hAt(x + 1, y) - hAt(x - 1, y);
       const dy = hAt(x, y + 1) - hAt(x, y - 1);
-      const slope = Math.sqrt(dx * dx + dy * dy);
+      const slope = lakeDepth > LAKE_MIN_DEPTH || seaIce ? 0 : Math.sqrt(dx * dx + dy * dy);
       const light = Math.max(0.35, 1 - slope * shadeK);
       let shaded = blendColors(base, 0x000000, 1 - light);
 
@@ -268,7 +490,7 @@ export function textureFromTerrain(
       shaded = blendColors(shaded, 0xffffff, d * textureAmt);
 
       // contours only above sea
-      if (doContours && e >= seaLevel) {
+      if (doContours && e >= seaLevel && lakeDepth <= LAKE_MIN_DEPTH) {
         const step = 0.05;
         const band = Math.abs((((e - seaLevel) / Math.max(1e-6, 1 - seaLevel)) % step) - step / 2) / (step / 2);
         if (band < 0.06) shaded = blendColors(shaded, 0x000000, 0.12);
@@ -287,7 +509,7 @@ export function textureFromTerrain(
     }
   }
 
-  return textureFromRGBA(buf, size);
+  return buf;
 }
 
 
@@ -295,18 +517,23 @@ export function terrainTextureFromFields(
   fields: Fields,
   size: number,
   seed: number,
-  seaLevel?: number // optional override
+  seaLevel?: number, // optional override
+  wrap: WrapMode = "none"
 ) {
   return {
     terrainTex: textureFromTerrain(fields.height, size, seed, {
       seaLevel,          // if undefined we auto-derive
+      wrap,
+      lakes: fields.lakes,
+      temperature: fields.temperature,
+      ice: fields.ice,
       contour: true,
       textureAmount: 0.08,
       shadeStrength: 5.0,
       // normalize: true,
     }),
     // was: textureFromRivers(fields.rivers, size),
-    riversTex: textureFromRiversNice(fields.height, fields.rivers, size, seaLevel),
+    riversTex: textureFromRiversNice(fields.height, fields.rivers, fields.flow, size, seaLevel),
   };
 }
 
@@ -0,0 +1,150 @@
+// /src/sim/bathymetry.ts
+// Ocean floor shaping: rebuilds every ocean cell's depth from its distance to
+// land, giving a flat continental shelf, a steep continental slope and a deep
+// abyssal plain. Mid-ocean ridges run along the middle of each basin (the
+// medial axis of the shore distance) and trenches sit at the foot of the slope
+// off mountainous coasts. Land is never touched, so the coastline is stable.
+
+import type { BathymetryParams, WrapMode } from "../model/types";
+import { computeShoreDistance, propagate, seed } from "./coast";
+
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
+const smoothstep = (v: number) => { const t = clamp01(v); return t * t * (3 - 2 * t); };
+
+// Depths below sea level, in height units
+const SHORE_DEPTH = 0.005;  // right at the waterline (keeps the coastline where it was)
+const SHELF_DEPTH = 0.04;   // shelf break, where the slope starts
+const ABYSS = 0.85;         // abyssal plain, as a fraction of the sea level
+const ABYSS_DEEP = 0.95;    // far from land the plain keeps sinking to this
+const ABYSS_RAMP = 0.1;     // map widths over which that happens
+
+const RIDGE_WIDTH = 0.02;   // map widths, half-width of a mid-ocean ridge
+const TRENCH_WIDTH = 0.008; // map widths, half-width of a trench
+const TRENCH_PROBE = 10;    // cells inland searched for coastal mountains
+const MOUNTAIN = 0.15;      // land this far above sea starts to pull a trench
+
+/**
+ * Reshape ocean cells of `height` in place (see the header). `strength` blends
+ * the modelled floor with the incoming one (so tectonic ridges and trenches
+ * still show through); 0 leaves the ocean untouched. `ky` is the row height
+ * in column widths (see rowSpacing).
+ */
+export function applyBathymetry(
+  height: Float32Array,
+  size: number,
+  sea: number,
+  params: BathymetryParams,
+  wrap: WrapMode = "none",
+  ky = 1
+) {
+  const { strength, shelfWidth, slopeWidth, ridgeHeight, trenchDepth } = params;
+  if (strength <= 0) return;
+
+  const n = size * size;
+  const shore = new Float32Array(n);
+  const src = new Int32Array(n);
+  computeShoreDistance(height, size, sea, wrap, shore, ky, src);
+
+  const wx = wrap !== "none";
+  const wy = wrap === "xy";
+  const foot = shelfWidth + slopeWidth; // map widths from land to the abyssal plain
+  const abyss = ABYSS * sea;
+
+  // Wrap-aware offset a - b along one axis
+  const dOff = (a: number, b: number, wraps: boolean) => {
+    let d = a - b;
+    if (wraps) {
+      if (d > size / 2) d -= size;
+      else if (d < -size / 2) d += size;
+    }
+    return d;
+  };
+
+  // Ridge axis: deep cells whose nearest shores (theirs vs a neighbour's) lie
+  // on different sides of the basin, i.e. further apart than the cell is from land
+  const axis = new Float32Array(n);
+  const axisSrc = new Int32Array(n);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = y * size + x;
+      const s = src[i];
+      let onAxis = false;
+      if (height[i] < sea && s >= 0 && shore[i] > foot) {
+        const sx = s % size, sy = (s - sx) / size;
+        for (let k = 0; k < 2 && !onAxis; k++) {
+          let nx = x + (k === 0 ? 1 : 0), ny = y + (k === 1 ? 1 : 0);
+          if (wx) nx %= size;
+          if (wy) ny %= size;
+          if (nx >= size || ny >= size) continue;
+          const t = src[ny * size + nx];
+          if (t < 0) continue;
+          const tx = t % size, ty = (t - tx) / size;
+          const sep = Math.hypot(dOff(tx, sx, wx), dOff(ty, sy, wy) * ky);
+          onAxis = sep > Math.max(2, shore[i] * size);
+        }
+      }
+      seed(axis, axisSrc, i, onAxis);
+    }
+  }
+  propagate(size, wrap, axis, axisSrc, ky);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = y * size + x;
+      const h = height[i];
+      if (h >= sea) continue;
+      const d = shore[i];
+
+      // Shelf → slope → abyssal plain
+      let depth: number;
+      if (d < shelfWidth) {
+        depth = SHORE_DEPTH + (SHELF_DEPTH - SHORE_DEPTH) * (d / shelfWidth);
+      } else if (d < foot) {
+        depth = SHELF_DEPTH + (abyss - SHELF_DEPTH) * smoothstep((d - shelfWidth) / slopeWidth);
+      } else {
+        depth = abyss + (ABYSS_DEEP - ABYSS) * sea * smoothstep((d - foot) / ABYSS_RAMP);
+      }
+
+      // Mid-ocean ridge, fading in past the slope so it never reaches the shelf
+      const da = axis[i] / RIDGE_WIDTH;
+      depth -= ridgeHeight * sea * Math.exp(-da * da) * smoothstep((d - foot) / slopeWidth);
+
+      // Trench just past the slope foot, as deep as the coast behind it is high
+      const dt = (d - foot - TRENCH_WIDTH) / TRENCH_WIDTH;
+      if (trenchDepth > 0 && dt > -3 && dt < 3 && src[i] >= 0) {
+        const relief = coastalRelief(height, size, x, y, src[i], wx, wy, ky, dOff);
+        depth += trenchDepth * sea * Math.exp(-dt * dt) * smoothstep((relief - sea - MOUNTAIN) / MOUNTAIN);
+      }
+
+      const modelled = sea - Math.min(sea, Math.max(SHORE_DEPTH, depth));
+      height[i] = h + (modelled - h) * strength;
+    }
+  }
+}
+
+// Highest land within TRENCH_PROBE cells inland of shore cell `s`, looking
+// along the direction from (x, y) to it
+function coastalRelief(
+  height: Float32Array,
+  size: number,
+  x: number,
+  y: number,
+  s: number,
+  wx: boolean,
+  wy: boolean,
+  ky: number,
+  dOff: (a: number, b: number, wraps: boolean) => number
+) {
+  const sx = s % size, sy = (s - sx) / size;
+  const ox = dOff(sx, x, wx), oy = dOff(sy, y, wy);
+  const len = Math.hypot(ox, oy * ky) || 1;
+  let best = height[s];
+  for (let k = 1; k <= TRENCH_PROBE; k++) {
+    let px = Math.round(sx + (ox / len) * k), py = Math.round(sy + (oy / len) * k);
+    if (wx) px = (px + size) % size;
+    if (wy) py = (py + size) % size;
+    if (px < 0 || py < 0 || px >= size || py >= size) break;
+    best = Math.max(best, height[py * size + px]);
+  }
+  return best;
+}
@@ -1,44 +1,118 @@
 // Brush tools that mutate the heightfield (and optionally moisture).
 // Keep all grid math here so the worker can call into it directly.
 
-import type { Brush } from "../model/types";
+import type { Brush, Dab, NoiseParams, Stamp, WrapMode } from "../model/types";
+import { createNoise, fbm2D, sampleTileable, type NoiseSource2D } from "./noise";
 
 export type DirtyRect = { x0: number; y0: number; x1: number; y1: number };
 
+/** Smallest rect covering both `a` and `b`. */
+export function unionRect(a: DirtyRect, b: DirtyRect): DirtyRect {
+  return {
+    x0: Math.min(a.x0, b.x0), y0: Math.min(a.y0, b.y0),
+    x1: Math.max(a.x1, b.x1), y1: Math.max(a.y1, b.y1),
+  };
+}
+
+/** Bounding rect of the cells where `a` and `b` differ, or null if none do. */
+export function diffRect(a: Float32Array, b: Float32Array, size: number): DirtyRect | null {
+  let r: DirtyRect | null = null;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) continue;
+    const x = i % size, y = (i / size) | 0;
+    r = r ? unionRect(r, { x0: x, y0: y, x1: x, y1: y }) : { x0: x, y0: y, x1: x, y1: y };
+  }
+  return r;
+}
+
 type ClampOpts = { min?: number; max?: number };
 const clamp = (v: number, { min = -Infinity, max = Infinity }: ClampOpts) =>
   v < min ? min : v > max ? max : v;
 
+/** Wrap an integer coordinate into [0,size) (handles negatives). */
+export const wrapCoord = (v: number, size: number) => ((v % size) + size) % size;
+
+/** Map a possibly out-of-range coordinate onto the grid: wrap or clamp. */
+const edgeCoord = (v: number, size: number, wraps: boolean) =>
+  wraps ? wrapCoord(v, size) : clamp(v, { min: 0, max: size - 1 });
+
+/**
+ * Axis-aligned box of a stroke in *unwrapped* grid space: clamped on axes
+ * that don't wrap, left free (may go <0 or >=size) on axes that do.
+ * `radius` is in column widths; rows are `ky` of those tall (see rowSpacing).
+ */
+function stampRect(
+  x: number,
+  y: number,
+  radius: number,
+  size: number,
+  pad: number,
+  wrap: WrapMode,
+  ky = 1
+): DirtyRect {
+  const r = Math.max(1, Math.floor(radius));
+  const ry = Math.max(1, Math.floor(radius / ky));
+  const wx = wrap !== "none";
+  const wy = wrap === "xy";
+  let x0 = Math.floor(x - r - pad), x1 = Math.ceil(x + r + pad);
+  let y0 = Math.floor(y - ry - pad), y1 = Math.ceil(y + ry + pad);
+  if (!wx) { x0 = clamp(x0, { min: 0 }); x1 = clamp(x1, { max: size - 1 }); }
+  if (!wy) { y0 = clamp(y0, { min: 0 }); y1 = clamp(y1, { max: size - 1 }); }
+  // Never cover a wrapped axis more than once
+  if (x1 - x0 >= size) { x0 = 0; x1 = size - 1; }
+  if (y1 - y0 >= size) { y0 = 0; y1 = size - 1; }
+  return { x0, y0, x1, y1 };
+}
+
 /**
  * Compute an axis-aligned bounding box for a circular brush stroke.
  * Expands by +1 to allow for smoothing kernels.
+ * With `wrap`, a stroke that crosses a seam reports the full span of that
+ * axis, since a DirtyRect can't express a box split across the edge.
  */
 export function strokeBounds(
   x: number,
   y: number,
   radius: number,
   size: number,
-  pad = 1
+  pad = 1,
+  wrap: WrapMode = "none",
+  ky = 1
 ): DirtyRect {
-  const r = Math.max(1, Math.floor(radius));
-  const x0 = clamp(Math.floor(x - r - pad), { min: 0 });
-  const y0 = clamp(Math.floor(y - r - pad), { min: 0 });
-  const x1 = clamp(Math.ceil(x + r + pad), { max: size - 1 });
-  const y1 = clamp(Math.ceil(y + r + pad), { max: size - 1 });
+  let { x0, y0, x1, y1 } = stampRect(x, y, radius, size, pad, wrap, ky);
+  if (x0 < 0 || x1 > size - 1) { x0 = 0; x1 = size - 1; }
+  if (y0 < 0 || y1 > size - 1) { y0 = 0; y1 = size - 1; }
   return { x0, y0, x1, y1 };
 }
 
 /**
  * Apply a circular brush stamp onto the heightfield.
- * - raise/lower: adds/subtracts a radial falloff (cosine) scaled by strength.
+ * - raise/lower: adds/subtracts the brush's radial falloff scaled by strength.
  * - smooth: local mean blend inside radius.
- * - rain: increases moisture in area (caller can use this to trigger flow/river recompute).
+ * - rain: adds to `moisture` in area. The worker passes its persistent rain layer here,
+ *   which computeMoisture() adds on top, so river accumulation picks it up.
+ * - mask/unmask: no-op here; they edit the mask layer via paintMask().
+ * - erode: no-op here; see erodeBrush() in erosion.ts.
+ * - relax: no-op here; run thermalErosion() over the stroke bounds.
+ * - flatten: blends toward `level`, the height where the stroke began.
+ * - terrace: blends toward the height quantized into soft-edged steps.
+ * - noise: adds seeded fBM detail, fixed to the map so dabs line up.
+ * - plateau: pulls heights above `brush.plateau.level` down to it.
+ * - slope: blends toward a ramp from `brush.slope.start` (relative) to the dab,
+ *   between the heights found at both ends.
+ * - stamp: `stamp` rotated and fitted into the brush circle, white standing
+ *   `brush.stamp.scale` high. add: raises by it; max/replace: raise to/set
+ *   `level` + stamp; min: cut down to `level` − (scale − stamp). No-op without `stamp`.
  *
  * @param height  Float32Array heightfield in [0,1]
- * @param moisture Optional Float32Array moisture field in [0,1]
+ * @param moisture Optional Float32Array moisture (or rain) layer in [0,1]
  * @param size    Grid dimension (size x size)
  * @param cx,cy   Stroke center in grid coordinates (integers preferred, but not required)
  * @param brush   Brush definition { kind, radius, strength }
+ * @param wrap    Edge topology; stamps crossing a wrapped edge continue on the other side
+ * @param level   Flatten target and stamp ground; defaults to the height under this dab
+ * @param stamp   Image for the stamp brush
+ * @param ky      Row height in column widths (see rowSpacing); radii are in column widths
  * @returns       DirtyRect that changed (inclusive indices)
  */
 export function applyBrush(
@@ -47,78 +121,368 @@ export function applyBrush(
   size: number,
   cx: number,
   cy: number,
-  brush: Brush
+  brush: Brush,
+  wrap: WrapMode = "none",
+  level = sampleHeight(height, size, cx, cy, wrap),
+  stamp?: Stamp,
+  ky = 1
 ): DirtyRect {
   const { kind, radius, strength } = brush;
-  const bounds = strokeBounds(cx, cy, radius, size, kind === "smooth" ? 2 : 1);
+  const pad = kind === "smooth" ? 2 : 1;
+  const bounds = strokeBounds(cx, cy, radius, size, pad, wrap, ky);
+  const profile = falloffProfile(brush.falloff);
 
   switch (kind) {
     case "raise":
     case "lower": {
       const s = kind === "raise" ? +strength : -strength;
-      radialAdd(height, size, cx, cy, radius, s);
+      radialAdd(height, size, cx, cy, radius, s, profile, wrap, ky);
       // Clamp the edited region to [0,1]
       clampRegion(height, size, bounds, 0, 1);
       break;
     }
     case "smooth": {
-      smoothRegion(height, size, bounds, radius, strength);
+      smoothRegion(height, size, stampRect(cx, cy, radius, size, pad, wrap, ky), radius, strength, wrap, ky);
       clampRegion(height, size, bounds, 0, 1);
       break;
     }
     case "rain": {
       if (moisture) {
-        radialAdd(moisture, size, cx, cy, radius, strength);
+        radialAdd(moisture, size, cx, cy, radius, strength, profile, wrap, ky);
         clampRegion(moisture, size, bounds, 0, 1);
       }
       break;
     }
+    case "flatten": {
+      const { mode } = brush.flatten;
+      forEachInStamp(size, cx, cy, radius, profile, wrap, ky, (i, f) => {
+        const h = height[i];
+        if ((mode === "cut" && h < level) || (mode === "fill" && h > level)) return;
+        height[i] = h + (level - h) * strength * f;
+      });
+      break;
+    }
+    case "terrace": {
+      const { steps, sharpness } = brush.terrace;
+      forEachInStamp(size, cx, cy, radius, profile, wrap, ky, (i, f) => {
+        const h = height[i];
+        height[i] = h + (terraceLevel(h, steps, sharpness) - h) * strength * f;
+      });
+      clampRegion(height, size, bounds, 0, 1);
+      break;
+    }
+    case "noise": {
+      const { seed, scale, octaves } = brush.noise;
+      const noise = brushNoise(seed);
+      const np: NoiseParams = { ...BRUSH_FBM, octaves };
+      const freq = 1 / Math.max(1, scale);
+      const sample = (x: number, y: number) => fbm2D(noise, x, y, np, freq);
+      forEachInStamp(size, cx, cy, radius, profile, wrap, ky, (i, f) => {
+        // sample at the wrapped cell so every dab sees the same pattern, made
+        // periodic on wrapped axes so it runs on across the edge
+        const x = i % size, y = Math.floor(i / size);
+        const n = wrap === "none" ? sample(x, y) : sampleTileable(sample, x, y, size, wrap);
+        height[i] += (n - 0.5) * 2 * strength * f;
+      });
+      clampRegion(height, size, bounds, 0, 1);
+      break;
+    }
+    case "plateau": {
+      const top = brush.plateau.level;
+      forEachInStamp(size, cx, cy, radius, profile, wrap, ky, (i, f) => {
+        const h = height[i];
+        if (h > top) height[i] = h - (h - top) * strength * f;
+      });
+      break;
+    }
+    case "slope": {
+      const s = brush.slope.start ?? { x: 0, y: 0 };
+      return rampBetween(height, size, cx + s.x, cy + s.y, cx, cy, radius, strength, brush.slope.ease, profile, wrap, ky);
+    }
+    case "stamp": {
+      if (!stamp) break;
+      // the rotated image's corners reach past the circle
+      const reach = radius * Math.SQRT2;
+      stampImage(height, size, cx, cy, radius, reach, strength, level, brush.stamp, stamp, wrap, ky);
+      const dirty = strokeBounds(cx, cy, reach, size, 1, wrap, ky);
+      clampRegion(height, size, dirty, 0, 1);
+      return dirty;
+    }
   }
 
   return bounds;
 }
 
+/** Height at the cell nearest (x, y): wrapped or clamped onto the grid. */
+export function sampleHeight(height: Float32Array, size: number, x: number, y: number, wrap: WrapMode = "none") {
+  const ix = edgeCoord(Math.round(x), size, wrap !== "none");
+  const iy = edgeCoord(Math.round(y), size, wrap === "xy");
+  return height[iy * size + ix];
+}
+
+/**
+ * Paint the user mask layer: 'mask' adds land, 'unmask' pushes toward ocean.
+ * Same falloff stamp as raise/lower; the mask stays in [0,1].
+ * @returns DirtyRect that changed (inclusive indices)
+ */
+export function paintMask(
+  mask: Float32Array,
+  size: number,
+  cx: number,
+  cy: number,
+  brush: Brush,
+  wrap: WrapMode = "none",
+  ky = 1
+): DirtyRect {
+  const { kind, radius, strength } = brush;
+  const bounds = strokeBounds(cx, cy, radius, size, 1, wrap, ky);
+  radialAdd(mask, size, cx, cy, radius, kind === "unmask" ? -strength : +strength, falloffProfile(brush.falloff), wrap, ky);
+  clampRegion(mask, size, bounds, 0, 1);
+  return bounds;
+}
+
 /* ---------- helpers ---------- */
 
+// Octave settings for the noise brush (only the octave count is exposed)
+const BRUSH_FBM: NoiseParams = {
+  kind: "simplex", fractal: "fbm", octaves: 4, lacunarity: 2, gain: 0.5, warp: 0,
+  ridgeOffset: 1, ridgeSharpness: 2,
+};
+
+// The noise brush reuses one source per seed
+let cachedNoise: { seed: number; noise: NoiseSource2D } | null = null;
+function brushNoise(seed: number) {
+  if (cachedNoise?.seed !== seed) cachedNoise = { seed, noise: createNoise(BRUSH_FBM.kind, seed) };
+  return cachedNoise.noise;
+}
+
+/** Weight at t = distance / radius (0 = centre … 1 = edge). */
+type Profile = (t: number) => number;
+
+const GAUSS_SIGMA = 0.4; // gaussian width (radii), shifted down to reach 0 at the edge
+const GAUSS_EDGE = Math.exp(-1 / (2 * GAUSS_SIGMA * GAUSS_SIGMA));
+const FLAT_CORE = 0.6; // flat-top: full weight out to this fraction of the radius
+
+/** Falloff curve of a brush: 1 at the centre, 0 at the edge (custom curves may differ). */
+export function falloffProfile({ profile, curve }: Brush["falloff"]): Profile {
+  switch (profile) {
+    case "linear": return (t) => 1 - t;
+    case "gaussian": return (t) => (Math.exp(-(t * t) / (2 * GAUSS_SIGMA * GAUSS_SIGMA)) - GAUSS_EDGE) / (1 - GAUSS_EDGE);
+    case "sharp": return (t) => (1 - t) * (1 - t) * (1 - t);
+    case "flat": return (t) => (t <= FLAT_CORE ? 1 : 0.5 * (1 + Math.cos((Math.PI * (t - FLAT_CORE)) / (1 - FLAT_CORE))));
+    case "custom": {
+      if (curve.length < 2) return () => curve[0] ?? 1;
+      const last = curve.length - 1;
+      return (t) => {
+        const k = Math.min(last - 1, Math.floor(t * last));
+        const f = t * last - k;
+        return clamp(curve[k] * (1 - f) + curve[k + 1] * f, { min: 0, max: 1 });
+      };
+    }
+    case "cosine":
+    default: return (t) => 0.5 * (1 + Math.cos(Math.PI * t));
+  }
+}
+
 /**
- * Add a radial falloff “stamp” to a scalar field.
- * Falloff uses a smooth cosine curve: f(d) = 0.5*(1+cos(pi * d/r)) for d<=r else 0.
- * delta = strength * f.
+ * The brush as it applies at one dab: pen scales and flow folded into its
+ * radius and strength.
  */
-function radialAdd(
-  field: Float32Array,
+export function brushAtDab(brush: Brush, dab: Dab): Brush {
+  return {
+    ...brush,
+    radius: Math.max(1, brush.radius * (dab.radiusScale ?? 1)),
+    strength: brush.strength * brush.flow * (dab.strengthScale ?? 1),
+  };
+}
+
+/**
+ * `h` snapped to one of `steps` levels over 0..1. Each step's top `1 - sharpness`
+ * fraction is a smoothstep riser up to the next level, so the result stays
+ * continuous and monotonic.
+ */
+function terraceLevel(h: number, steps: number, sharpness: number) {
+  const n = Math.max(1, Math.round(steps));
+  const v = h * n;
+  const base = Math.floor(v);
+  const riser = Math.max(0.02, 1 - sharpness);
+  const t = clamp((v - base - (1 - riser)) / riser, { min: 0, max: 1 });
+  return (base + t * t * (3 - 2 * t)) / n;
+}
+
+/**
+ * Visit each cell within `radius` (column widths, rows `ky` tall) of (cx, cy)
+ * once, with its falloff weight. Wrapped axes continue on the other side;
+ * others are clipped.
+ */
+function forEachInStamp(
   size: number,
   cx: number,
   cy: number,
   radius: number,
-  strength: number
+  profile: Profile,
+  wrap: WrapMode,
+  ky: number,
+  visit: (idx: number, falloff: number) => void
 ) {
   const r2 = radius * radius;
-  const piOverR = Math.PI / radius;
+  const wx = wrap !== "none";
+  const wy = wrap === "xy";
 
-  const x0 = Math.max(0, Math.floor(cx - radius));
-  const y0 = Math.max(0, Math.floor(cy - radius));
-  const x1 = Math.min(size - 1, Math.ceil(cx + radius));
-  const y1 = Math.min(size - 1, Math.ceil(cy + radius));
+  // Unwrapped loop bounds; clamped only on axes that don't wrap
+  let x0 = Math.floor(cx - radius), x1 = Math.ceil(cx + radius);
+  let y0 = Math.floor(cy - radius / ky), y1 = Math.ceil(cy + radius / ky);
+  if (!wx) { x0 = Math.max(0, x0); x1 = Math.min(size - 1, x1); }
+  if (!wy) { y0 = Math.max(0, y0); y1 = Math.min(size - 1, y1); }
+  // A stamp wider than the map would hit cells twice after wrapping
+  if (x1 - x0 >= size) x1 = x0 + size - 1;
+  if (y1 - y0 >= size) y1 = y0 + size - 1;
 
   for (let y = y0; y <= y1; y++) {
-    const dy = y - cy;
+    const dy = (y - cy) * ky;
+    const row = (wy ? wrapCoord(y, size) : y) * size;
     for (let x = x0; x <= x1; x++) {
       const dx = x - cx;
       const d2 = dx * dx + dy * dy;
       if (d2 > r2) continue;
-      const d = Math.sqrt(d2);
-      const falloff = 0.5 * (1 + Math.cos(piOverR * d)); // 1 at center, 0 at edge
-      const idx = y * size + x;
-      field[idx] += strength * falloff;
+      visit(row + (wx ? wrapCoord(x, size) : x), profile(Math.sqrt(d2) / radius));
     }
   }
 }
 
+const STAMP_EDGE = 0.05; // fraction of the image faded in at its border, so stamps leave no seams
+
+/**
+ * Stamp `stamp` centred on (cx, cy): rotated by `rotation` degrees, its longer
+ * side spanning the brush diameter, sampled bilinearly. See applyBrush for
+ * how each blend mode uses `ground`.
+ */
+function stampImage(
+  field: Float32Array,
+  size: number,
+  cx: number,
+  cy: number,
+  radius: number,
+  reach: number,
+  strength: number,
+  ground: number,
+  { rotation, scale, blend }: Brush["stamp"],
+  stamp: Stamp,
+  wrap: WrapMode,
+  ky: number
+) {
+  const { width: w, height: h, data } = stamp;
+  const px = (2 * radius) / Math.max(w, h); // cells per image pixel
+  const a = (-rotation * Math.PI) / 180;
+  const cos = Math.cos(a), sin = Math.sin(a);
+  const wx = wrap !== "none";
+  const wy = wrap === "xy";
+  const box = stampRect(cx, cy, reach, size, 0, wrap, ky);
+
+  const texel = (x: number, y: number) => data[y * w + x] / 255;
+  for (let y = box.y0; y <= box.y1; y++) {
+    const row = (wy ? wrapCoord(y, size) : y) * size;
+    for (let x = box.x0; x <= box.x1; x++) {
+      // into image pixels: undo the rotation, then the scale
+      const dx = x - cx, dy = (y - cy) * ky;
+      const u = (dx * cos - dy * sin) / px + w / 2 - 0.5;
+      const v = (dx * sin + dy * cos) / px + h / 2 - 0.5;
+      if (u < -0.5 || v < -0.5 || u > w - 0.5 || v > h - 0.5) continue;
+
+      const u0 = clamp(Math.floor(u), { min: 0, max: w - 1 }), v0 = clamp(Math.floor(v), { min: 0, max: h - 1 });
+      const u1 = Math.min(w - 1, u0 + 1), v1 = Math.min(h - 1, v0 + 1);
+      const fu = clamp(u - u0, { min: 0, max: 1 }), fv = clamp(v - v0, { min: 0, max: 1 });
+      const s =
+        (texel(u0, v0) * (1 - fu) + texel(u1, v0) * fu) * (1 - fv) +
+        (texel(u0, v1) * (1 - fu) + texel(u1, v1) * fu) * fv;
+
+      const edge = Math.min(u + 0.5, v + 0.5, w - 0.5 - u, h - 0.5 - v) / (STAMP_EDGE * Math.max(w, h));
+      const weight = strength * Math.min(1, edge);
+      const i = row + (wx ? wrapCoord(x, size) : x);
+      const cur = field[i];
+      let target: number;
+      switch (blend) {
+        case "add": target = cur + scale * s; break;
+        case "max": target = Math.max(cur, ground + scale * s); break;
+        case "min": target = Math.min(cur, ground - scale * (1 - s)); break;
+        case "replace": target = ground + scale * s; break;
+      }
+      field[i] = cur + (target - cur) * weight;
+    }
+  }
+}
+
+/**
+ * Blend a `radius`-wide band around the segment a→b toward a ramp from the
+ * height at a to the height at b. `ease` bends the profile from linear (0)
+ * to smoothstep (1). Returns the rect it may have changed.
+ */
+function rampBetween(
+  field: Float32Array,
+  size: number,
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number,
+  radius: number,
+  strength: number,
+  ease: number,
+  profile: Profile,
+  wrap: WrapMode,
+  ky: number
+): DirtyRect {
+  const ha = sampleHeight(field, size, ax, ay, wrap);
+  const hb = sampleHeight(field, size, bx, by, wrap);
+  const dx = bx - ax, dy = (by - ay) * ky; // in column widths
+  const len2 = dx * dx + dy * dy;
+  const wx = wrap !== "none";
+  const wy = wrap === "xy";
+
+  // Box around the whole band, as a stamp centred on the segment's midpoint
+  const mx = (ax + bx) / 2, my = (ay + by) / 2;
+  const reach = Math.sqrt(len2) / 2 + radius;
+  const box = stampRect(mx, my, reach, size, 0, wrap, ky);
+
+  for (let y = box.y0; y <= box.y1; y++) {
+    const row = (wy ? wrapCoord(y, size) : y) * size;
+    const py = (y - ay) * ky;
+    for (let x = box.x0; x <= box.x1; x++) {
+      const t = len2 > 0 ? clamp(((x - ax) * dx + py * dy) / len2, { min: 0, max: 1 }) : 0;
+      const d = Math.hypot(x - (ax + dx * t), py - dy * t);
+      if (d > radius) continue;
+      const s = t + (t * t * (3 - 2 * t) - t) * ease;
+      const i = row + (wx ? wrapCoord(x, size) : x);
+      field[i] += (ha + (hb - ha) * s - field[i]) * strength * profile(d / radius);
+    }
+  }
+  return strokeBounds(mx, my, reach, size, 1, wrap, ky);
+}
+
+/**
+ * Add a radial falloff “stamp” to a scalar field.
+ * delta = strength * profile(d/r) for d<=r, else 0.
+ */
+function radialAdd(
+  field: Float32Array,
+  size: number,
+  cx: number,
+  cy: number,
+  radius: number,
+  strength: number,
+  profile: Profile,
+  wrap: WrapMode = "none",
+  ky = 1
+) {
+  forEachInStamp(size, cx, cy, radius, profile, wrap, ky, (i, f) => { field[i] += strength * f; });
+}
+
 /**
  * Simple box blur blend inside bounds. We blend original→blurred by 'alpha'.
  * - `kernelRadius` controls blur radius (in pixels).
  * - `alpha` in [0,1] controls how strongly to move toward blurred value.
+ * - `bounds` is in unwrapped grid space; reads and writes outside the grid
+ *   wrap around on wrapped axes and clamp (replicate edge) otherwise.
+ * - `ky` (row height in column widths) widens the vertical kernel to match.
  * NOTE: To avoid allocations, we reuse a temporary line buffer.
  */
 function smoothRegion(
@@ -126,55 +490,47 @@ function smoothRegion(
   size: number,
   bounds: DirtyRect,
   kernelRadius: number,
-  alpha: number
+  alpha: number,
+  wrap: WrapMode = "none",
+  ky = 1
 ) {
   const { x0, y0, x1, y1 } = bounds;
   const k = Math.max(1, Math.floor(kernelRadius));
+  const kv = Math.max(1, Math.floor(kernelRadius / ky));
   const w = x1 - x0 + 1;
   const h = y1 - y0 + 1;
+  const wx = wrap !== "none";
+  const wy = wrap === "xy";
+  const at = (x: number, y: number) =>
+    edgeCoord(y, size, wy) * size + edgeCoord(x, size, wx);
 
   // Horizontal pass: running sum per row
   const tmp = new Float32Array(w * h);
+  const norm = 1 / (2 * k + 1);
 
   for (let y = y0, ry = 0; y <= y1; y++, ry++) {
     let sum = 0;
     // prime the window
-    for (let x = x0 - k; x <= x0 + k; x++) {
-      const xi = clamp(x, { min: 0, max: size - 1 });
-      sum += field[y * size + xi];
-    }
-    const norm = 1 / (2 * k + 1);
+    for (let x = x0 - k; x <= x0 + k; x++) sum += field[at(x, y)];
     for (let x = x0, rx = 0; x <= x1; x++, rx++) {
-      const left = x - k - 1;
-      const right = x + k;
-      const li = clamp(left, { min: 0, max: size - 1 });
-      const ri = clamp(right, { min: 0, max: size - 1 });
-      // slide
-      if (left >= 0) sum -= field[y * size + li];
-      if (right < size) sum += field[y * size + ri];
       tmp[ry * w + rx] = sum * norm;
+      // slide
+      sum += field[at(x + k + 1, y)] - field[at(x - k, y)];
     }
   }
 
-  // Vertical pass: running sum per column, then blend into original
-  for (let x = 0; x < w; x++) {
+  // Vertical pass: running sum per column (rows clamped to the rect), then blend into original
+  const tAt = (rx: number, ry: number) => tmp[clamp(ry, { min: 0, max: h - 1 }) * w + rx];
+  const normV = 1 / (2 * kv + 1);
+  for (let rx = 0; rx < w; rx++) {
     let sum = 0;
     // prime
-    for (let y = y0 - k; y <= y0 + k; y++) {
-      const yi = clamp(y, { min: 0, max: size - 1 }) - y0;
-      sum += tmp[yi * w + x];
-    }
-    const norm = 1 / (2 * k + 1);
-    for (let y = y0, ry = 0; y <= y1; y++, ry++) {
-      const top = ry - k - 1;
-      const bot = ry + k;
-      const ti = clamp(top, { min: 0, max: h - 1 });
-      const bi = clamp(bot, { min: 0, max: h - 1 });
-      if (top >= 0) sum -= tmp[ti * w + x];
-      if (bot < h) sum += tmp[bi * w + x];
-      const blurred = sum * norm;
-      const idx = y * size + (x0 + x);
+    for (let ry = -kv; ry <= kv; ry++) sum += tAt(rx, ry);
+    for (let ry = 0; ry < h; ry++) {
+      const blurred = sum * normV;
+      const idx = at(x0 + rx, y0 + ry);
       field[idx] = field[idx] * (1 - alpha) + blurred * alpha;
+      sum += tAt(rx, ry + kv + 1) - tAt(rx, ry - kv);
     }
   }
 }
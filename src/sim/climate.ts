@@ -1,77 +1,279 @@
 // /src/sim/climate.ts
-import type { SimParams, Fields } from "../model/types";
+import type { SimParams, Fields, WindParams, BiomeRules } from "../model/types";
 import type { DirtyRect } from "./brush";
-import { Biome } from "../model/constants";
+import { DEFAULT_BIOME_RULES, UNCLASSIFIED, biomeOrder } from "../model/biomes";
+import { LAKE_MIN_DEPTH } from "./rivers";
+import { rowSpacing } from "./noise";
 
 // Helpers
 const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
 const rectAll = (size: number): DirtyRect => ({ x0: 0, y0: 0, x1: size - 1, y1: size - 1 });
 
+/**
+ * Signed latitude of row `y` in degrees (+ north). The map is centered on
+ * params.latitude in params.planet.hemisphere and spans planet.span degrees,
+ * north up; rows past a pole fold back over it. Planet mode "sphere" uses the
+ * true equirectangular latitude of the row (pole to pole) instead, so its rows
+ * are half as tall as its columns are wide (see rowSpacing).
+ */
+export function rowLatitude(y: number, size: number, params: SimParams): number {
+  const { mode, span, hemisphere } = params.planet;
+  if (mode === "sphere") return 90 - (180 * (y + 0.5)) / size;
+  const center = hemisphere === "south" ? -params.latitude : params.latitude;
+  let lat = center + span * (0.5 - y / (size - 1));
+  if (lat > 90) lat = 180 - lat;
+  if (lat < -90) lat = -180 - lat;
+  return lat;
+}
+
+// Annual-mean insolation at latitude `lat` for axial tilt `tilt` (degrees), global
+// mean 1: second-order Legendre fit, s = 1 - 5/8·P2(cos tilt)·P2(sin lat).
+const P2 = (x: number) => (3 * x * x - 1) / 2;
+function insolation(lat: number, tilt: number) {
+  const rad = Math.PI / 180;
+  return 1 - 0.625 * P2(Math.cos(tilt * rad)) * P2(Math.sin(lat * rad));
+}
+// Daily-mean insolation (global annual mean 1) at latitude `lat` on day-of-year
+// `month` (0 = start of January, fractional), sun declination from `tilt`.
+function monthlyInsolation(lat: number, tilt: number, month: number) {
+  const rad = Math.PI / 180;
+  const phi = lat * rad, delta = declination(tilt, month) * rad;
+  const c = Math.max(-1, Math.min(1, -Math.tan(phi) * Math.tan(delta)));
+  const h0 = Math.acos(c); // half-day length (0 polar night, π midnight sun)
+  return (4 / Math.PI) * (h0 * Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.sin(h0));
+}
+// Solstices near the end of June / December, like Earth
+const declination = (tilt: number, month: number) => -tilt * Math.cos((2 * Math.PI * (month + 1 / 3)) / 12);
+
+export const MONTHS = 12;
+// Temperatures trail the sun by about a month
+const SEASON_LAG = 0.75;
+// Fraction of the insolation swing that reaches the surface, at the coast and
+// (scaled by climate.continentality) deep inland
+const SEASON_MARITIME = 0.2;
+const SEASON_CONTINENTAL = 0.8;
+// Wind belts and the ITCZ follow the sun by this fraction of its declination
+const BELT_SHIFT = 0.5;
+// Convective rain under the ITCZ (moisture added at its center, e-folding width in degrees)
+const ITCZ_RAIN = 0.5;
+const ITCZ_WIDTH = 12;
+
+// Continentality: 0 at the coast → ~0.63 one scale inland → 1 deep inland
+const CONTINENTAL_SCALE = 0.1; // map widths
+const continental = (coastDist: number) => 1 - Math.exp(-coastDist / CONTINENTAL_SCALE);
+// Temperature continentality pivots around this mild value; cells this
+// continental are left unchanged (coasts are moderated, interiors pushed out)
+const MILD_TEMP = 0.55;
+const NEUTRAL_CONTINENTALITY = 0.3;
+
+// Earth's equator→pole insolation range maps onto the 1 → 0.4 warmth range
+const EARTH_TILT = 23.4;
+const S_EQUATOR = insolation(0, EARTH_TILT);
+const S_POLE = insolation(90, EARTH_TILT);
+const WARMTH_PER_INSOLATION = 0.6 / (S_EQUATOR - S_POLE);
+
 /**
  * Temperature model:
- * - Colder with elevation (tempLapse)
- * - Colder toward poles (top/bottom): simple latitudinal gradient
+ * - Colder with elevation (tempLapse); the ocean surface counts as sea level
+ * - Latitudinal gradient from annual insolation: rows get their latitude from
+ *   params.latitude/planet (rowLatitude), and planet.tilt reshapes the gradient
+ *   (low tilt: cold poles; very high tilt: poles warmer than the equator)
+ * - planet.baseTemp shifts the whole planet warmer/colder
+ * - With `coastDist`, climate.continentality pulls coastal temperatures toward
+ *   mild (maritime) and pushes interiors toward the extremes
+ * - With `month` (0 = January … 11), adds that month's seasonal swing from the
+ *   sun's declination (planet.tilt), lagged ~1 month and damped near coasts.
+ *   Monthly values are not clamped, so seasonal extremes survive.
  */
 export function computeTemperature(
   height: Float32Array,
   size: number,
   params: SimParams,
   out: Float32Array,
-  rect?: DirtyRect
+  rect?: DirtyRect,
+  coastDist?: Float32Array,
+  month?: number
 ) {
-  const { tempLapse } = params.climate;
+  const { tempLapse, continentality, seaLevel: sea } = params.climate;
+  const { tilt, baseTemp } = params.planet;
   const r = rect ?? rectAll(size);
 
   for (let y = r.y0; y <= r.y1; y++) {
-    const lat = y / (size - 1);                 // 0 at top, 1 at bottom
-    const pole = Math.abs(lat - 0.5) * 2;       // 0 at equator, 1 at poles
+    const lat = rowLatitude(y, size, params);
+    const s = insolation(lat, tilt);
+    // 1 at Earth's equator, 0.4 at Earth's poles
+    const warmth = 1 - WARMTH_PER_INSOLATION * (S_EQUATOR - s) + baseTemp;
+    const swing = month === undefined ? 0 : seasonalSwing(lat, tilt, month);
     for (let x = r.x0; x <= r.x1; x++) {
       const i = y * size + x;
-      const h = height[i];                      // 0..1
-      // Base warmth higher near equator, lower at poles; drop with elevation
-      const t = clamp01(1 - tempLapse * h - 0.6 * pole);
-      out[i] = t;
+      const h = Math.max(sea, height[i]);       // 0..1; the ocean surface sits at sea level
+      // drop with elevation
+      let t = warmth - tempLapse * h;
+      const c = coastDist ? continental(coastDist[i]) : NEUTRAL_CONTINENTALITY;
+      if (coastDist) t += continentality * (c - NEUTRAL_CONTINENTALITY) * (t - MILD_TEMP);
+      if (month === undefined) {
+        out[i] = clamp01(t);
+      } else {
+        const k = SEASON_MARITIME + (SEASON_CONTINENTAL - SEASON_MARITIME) * continentality * c;
+        out[i] = t + k * swing;
+      }
     }
   }
 }
 
+// Warmth anomaly of `month` at latitude `lat` (before coastal damping): lagged
+// monthly insolation minus its annual mean
+function seasonalSwing(lat: number, tilt: number, month: number) {
+  let mean = 0;
+  for (let m = 0; m < MONTHS; m++) mean += monthlyInsolation(lat, tilt, m + 0.5);
+  mean /= MONTHS;
+  return WARMTH_PER_INSOLATION * (monthlyInsolation(lat, tilt, month + 0.5 - SEASON_LAG) - mean);
+}
+
 /**
- * Moisture model:
- * - More moisture at low elevations (inversely related to height)
- * - Optional crude wind rain-shadow from west→east using height slope
+ * Prevailing wind at latitude `lat` (degrees, + north; see rowLatitude) as a
+ * unit vector in grid space (x east, y down, north up).
+ */
+export function prevailingWind(lat: number, wind: WindParams): { x: number; y: number } {
+  const a = Math.abs(lat);
+  const deg = a < 30 ? wind.trade : a < 60 ? wind.westerly : wind.polar;
+  const rad = (deg * Math.PI) / 180;
+  // "equatorward" is down in the north, up in the south
+  return { x: Math.cos(rad), y: Math.sin(rad) * (lat >= 0 ? 1 : -1) };
+}
+
+// Rain-out → moisture response: flat land under saturated air reads ~0.7,
+// heavy orographic rain approaches 1 without clipping
+const MOISTURE_SCALE = 1.2;
+
+/**
+ * Moisture model: moisture is advected from the ocean along the prevailing winds.
+ * - Air over ocean is saturated; so is air blowing in across a non-wrapped map edge.
+ * - Over land air rains out a little per cell (1/(wind.reach·size)) plus
+ *   wind.orographic × height climbed, so windward slopes are wet and leeward
+ *   slopes sit in a dry rain shadow. Moisture follows the local rain-out.
+ * - Rows are swept upwind-first (first-order upwind scheme), so one pass reaches
+ *   steady state; air only crosses into a row whose wind keeps the same
+ *   north/south heading (none across the subtropical divergence at 30°).
+ * - `air` keeps the humidity left after rain-out. With a `rect`, cells upwind of
+ *   it are read from `air` as left by the last pass, and the pass runs on over
+ *   everything downwind of it (see moistureRect), so it matches a full pass.
+ *   Returns the rect it updated.
+ * - With `coastDist`, interiors dry out by up to half (climate.continentality)
+ * - With `month`, the wind belts shift toward the summer hemisphere and land
+ *   under the ITCZ gets extra convective rain (wet/dry seasons, monsoons)
  * - Global shift from params.climate.moistureShift
+ * - Optional `rain` layer (painted by the rain brush) added on top
  */
 export function computeMoisture(
   height: Float32Array,
   size: number,
   params: SimParams,
   out: Float32Array,
-  rect?: DirtyRect
-) {
-  const { moistureShift } = params.climate;
-  const r = rect ?? rectAll(size);
+  rect?: DirtyRect,
+  rain?: Float32Array,
+  air: Float32Array = new Float32Array(size * size),
+  coastDist?: Float32Array,
+  month?: number
+): DirtyRect {
+  const { moistureShift, seaLevel: sea, wind, continentality } = params.climate;
+  const wrapX = params.wrap !== "none";
+  const r = rect ? moistureRect(rect, size, params, month) : rectAll(size);
+  const base = 1 / Math.max(1, wind.reach * size);
+  const ky = rowSpacing(params); // rows are ky column widths tall, so the wind crosses them sooner
+  // full-width rows resolve the X seam themselves: sweep them twice
+  const passes = wrapX && r.x0 === 0 && r.x1 === size - 1 ? 2 : 1;
+  const shift = beltShift(params, month);
 
-  for (let y = r.y0; y <= r.y1; y++) {
-    for (let x = r.x0; x <= r.x1; x++) {
-      const i = y * size + x;
-      const h = height[i];
-      // base: wetter in valleys/plains
-      let m = clamp01(1 - h + moistureShift);
+  const windAt = (y: number) => prevailingWind(rowLatitude(y, size, params) - shift, wind);
+  const dir = (y: number) => Math.sign(windAt(y).y);
+  const ground = (i: number) => Math.max(sea, height[i]);
+
+  for (const y of upwindRowOrder(r.y0, r.y1, dir)) {
+    const w = windAt(y);
+    const ax = Math.abs(w.x), ay = Math.abs(w.y) / ky;
+    const sx = w.x < 0 ? -1 : 1;
+    const yu = y - Math.sign(w.y);
+    const fromY = ay > 0 && yu >= 0 && yu < size && dir(yu) === Math.sign(w.y);
+    const itcz = month === undefined ? 0 : ITCZ_RAIN * Math.exp(-(((rowLatitude(y, size, params) - shift) / ITCZ_WIDTH) ** 2));
 
-      // crude rain-shadow: if terrain rises from west→east, add; if falls, subtract
-      const left = x > 0 ? height[y * size + (x - 1)] : h;
-      const right = x < size - 1 ? height[y * size + (x + 1)] : h;
-      const slope = right - left;         // >0 rising eastward
-      m = clamp01(m + 0.15 * Math.max(0, slope) - 0.10 * Math.max(0, -slope));
+    for (let pass = 0; pass < passes; pass++) {
+      for (let t = 0; t <= r.x1 - r.x0; t++) {
+        const x = sx > 0 ? r.x0 + t : r.x1 - t;
+        const i = y * size + x;
+        const h = height[i];
 
-      out[i] = m;
+        let m = 1;
+        if (h < sea) {
+          air[i] = 1; // evaporation keeps air over the ocean saturated
+        } else {
+          // upwind air: X neighbour (saturated off-map), blended with the Y neighbour
+          let xu = x - sx;
+          if (wrapX) xu = (xu + size) % size;
+          let q = 1, hu = sea;
+          if (xu >= 0 && xu < size) {
+            q = air[y * size + xu];
+            hu = ground(y * size + xu);
+          }
+          if (fromY) {
+            const j = yu * size + x;
+            q = (ax * q + ay * air[j]) / (ax + ay);
+            hu = (ax * hu + ay * ground(j)) / (ax + ay);
+          }
+          const rainOut = q * Math.min(1, base + wind.orographic * Math.max(0, h - hu));
+          air[i] = q - rainOut;
+          m = 1 - Math.exp(-(rainOut / base) * MOISTURE_SCALE);
+          if (coastDist) m *= 1 - 0.5 * continentality * continental(coastDist[i]);
+          m += itcz;
+        }
+
+        m = clamp01(m + moistureShift);
+        if (rain) m = clamp01(m + rain[i]);
+        out[i] = m;
+      }
     }
   }
+  return r;
+}
+
+// Latitude the wind belts sit at in `month` (ITCZ center); 0 for the annual mean
+const beltShift = (params: SimParams, month?: number) =>
+  month === undefined ? 0 : BELT_SHIFT * declination(params.planet.tilt, month + 0.5 - SEASON_LAG);
+
+/**
+ * Rows a moisture pass needs after `rect` changed: air runs on along each row
+ * (around a wrapped map, too), so whole rows, extended north/south for as long
+ * as the wind keeps carrying air from one row into the next.
+ */
+export function moistureRect(rect: DirtyRect, size: number, params: SimParams, month?: number): DirtyRect {
+  const shift = beltShift(params, month);
+  const dir = (y: number) => Math.sign(prevailingWind(rowLatitude(y, size, params) - shift, params.climate.wind).y);
+  let { y0, y1 } = rect;
+  while (y1 + 1 < size && dir(y1 + 1) > 0 && dir(y1) > 0) y1++;
+  while (y0 > 0 && dir(y0 - 1) < 0 && dir(y0) < 0) y0--;
+  return { x0: 0, y0, x1: size - 1, y1 };
+}
+
+// Rows y0..y1 ordered so each row's upwind row (same heading) comes first
+function upwindRowOrder(y0: number, y1: number, dir: (y: number) => number): number[] {
+  const rows: number[] = [];
+  for (let y = y0; y <= y1; ) {
+    const s = dir(y);
+    let e = y;
+    while (e < y1 && dir(e + 1) === s) e++;
+    if (s < 0) for (let k = e; k >= y; k--) rows.push(k);
+    else for (let k = y; k <= e; k++) rows.push(k);
+    y = e + 1;
+  }
+  return rows;
 }
 
 /**
- * Classify biomes from (sea level, temp, moisture, elevation).
- * Thresholds are intentionally simple and easy to tweak.
+ * Classify biomes from (sea level, lakes, temp, moisture, elevation) with a
+ * data-driven rule set: biomes are tested in priority order and each cell takes
+ * the first one with a matching region (UNCLASSIFIED if none matches).
+ * `lakes` (water depth from computeRivers) and `ice` (from computeGlaciers) are
+ * optional; without them no cell is "lake" / "ice" surface. Ice wins over lakes.
  */
 export function classifyBiomes(
   height: Float32Array,
@@ -80,68 +282,79 @@ export function classifyBiomes(
   size: number,
   params: SimParams,
   out: Uint8Array,
-  rect?: DirtyRect
+  rect?: DirtyRect,
+  lakes?: Float32Array,
+  ice?: Float32Array,
+  rules: BiomeRules = DEFAULT_BIOME_RULES
 ) {
   const sea = params.climate.seaLevel;
   const r = rect ?? rectAll(size);
+  const { ids, surfaces, bounds } = compileRules(rules);
 
   for (let y = r.y0; y <= r.y1; y++) {
     for (let x = r.x0; x <= r.x1; x++) {
       const i = y * size + x;
       const h = height[i];
-      const t = temperature[i];
-      const m = moisture[i];
-
-      // Water & coasts
-      if (h < sea) {
-        out[i] = Biome.Ocean;
-        continue;
-      }
-      if (h < sea + 0.02) {
-        out[i] = Biome.Beach;
-        continue;
+      let surface = h < sea ? OCEAN
+        : ice && ice[i] > 0 ? ICE
+        : lakes && lakes[i] > LAKE_MIN_DEPTH ? LAKE : LAND;
+      const t = temperature[i], m = moisture[i], alt = h - sea;
+      out[i] = UNCLASSIFIED;
+      for (;;) {
+        for (let k = 0; k < ids.length; k++) {
+          const o = k * 8;
+          if (
+            surfaces[k] === surface &&
+            t >= bounds[o] && t < bounds[o + 1] &&
+            m >= bounds[o + 2] && m < bounds[o + 3] &&
+            h >= bounds[o + 4] && h < bounds[o + 5] &&
+            alt >= bounds[o + 6] && alt < bounds[o + 7]
+          ) {
+            out[i] = ids[k];
+            break;
+          }
+        }
+        // Rule sets without an ice region classify glaciers as plain land
+        if (out[i] !== UNCLASSIFIED || surface !== ICE) break;
+        surface = LAND;
       }
+    }
+  }
+}
 
-      // High mountains & snowcaps
-      if (h > 0.88 && t < 0.45) {
-        out[i] = Biome.Snow;
-        continue;
-      }
-      if (h > 0.84) {
-        out[i] = Biome.Mountain;
-        continue;
-      }
+const LAND = 0, OCEAN = 1, LAKE = 2, ICE = 3;
+const SURFACE_CODE = { land: LAND, ocean: OCEAN, lake: LAKE, ice: ICE };
 
-      // Temperature & moisture bands
-      if (t < 0.33) {
-        // cold
-        out[i] = m < 0.35 ? Biome.Tundra : Biome.BorealForest;
-      } else if (t < 0.66) {
-        // temperate
-        if (m < 0.30) out[i] = Biome.Shrubland;
-        else if (m < 0.55) out[i] = Biome.Grassland;
-        else out[i] = Biome.TemperateForest;
-      } else {
-        // warm/hot
-        if (m < 0.28) out[i] = Biome.Desert;
-        else if (m < 0.55) out[i] = Biome.Savanna;
-        else out[i] = Biome.Rainforest;
+// Flatten rules into one row per region in test order: biome id, surface code
+// and [min, max) for temperature, moisture, height, altitude (open = ±Infinity)
+function compileRules(rules: BiomeRules) {
+  const ids: number[] = [], surfaces: number[] = [], bounds: number[] = [];
+  for (const id of biomeOrder(rules)) {
+    for (const g of rules.biomes[id].regions) {
+      ids.push(id);
+      surfaces.push(SURFACE_CODE[g.surface ?? "land"]);
+      for (const b of [g.temperature, g.moisture, g.height, g.altitude]) {
+        bounds.push(b?.min ?? -Infinity, b?.max ?? Infinity);
       }
     }
   }
+  return { ids, surfaces, bounds: Float64Array.from(bounds) };
 }
 
 /**
- * Convenience: recompute all derived layers after height changes.
- * If `rect` provided, only recompute that area (fast brushes).
+ * Temperature + moisture only. Use this when rivers/lakes must be recomputed
+ * before biomes (computeRivers → classifyBiomes). Reads `fields.coastDist`,
+ * so run computeCoastDistance first when the coastline changed.
+ * `rain` is the user-painted moisture layer, if any. Returns the rect whose
+ * moisture was updated (`rect` and everything downwind of it).
  */
-export function recomputeDerived(
+export function recomputeClimate(
   fields: Fields,
   size: number,
   params: SimParams,
-  rect?: DirtyRect
-) {
-  computeTemperature(fields.height, size, params, fields.temperature, rect);
-  computeMoisture(fields.height, size, params, fields.moisture, rect);
-  classifyBiomes(fields.height, fields.temperature, fields.moisture, size, params, fields.biomes, rect);
+  rect?: DirtyRect,
+  rain?: Float32Array
+): DirtyRect {
+  computeTemperature(fields.height, size, params, fields.temperature, rect, fields.coastDist);
+  return computeMoisture(fields.height, size, params, fields.moisture, rect, rain, fields.humidity, fields.coastDist);
 }
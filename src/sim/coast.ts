@@ -0,0 +1,113 @@
+// /src/sim/coast.ts
+// Distances to the ocean (continentality) and to land (bathymetry).
+// Nearest-seed-cell propagation (two forward/backward raster sweeps, like the
+// plate-boundary distances in tectonics.ts): near-exact Euclidean distance in
+// O(n), wrap-aware. `ky` is the row height in column widths (see rowSpacing).
+
+import type { WrapMode } from "../model/types";
+import type { DirtyRect } from "./brush";
+
+/**
+ * Fill `out` with each cell's distance to the nearest ocean cell (height < sea),
+ * in map widths (0 on ocean). A map with no ocean gets Infinity everywhere.
+ * `src` is optional scratch (nearest ocean cell per cell).
+ */
+export function computeCoastDistance(
+  height: Float32Array,
+  size: number,
+  sea: number,
+  wrap: WrapMode,
+  out: Float32Array,
+  ky = 1,
+  src: Int32Array = new Int32Array(size * size)
+) {
+  for (let i = 0; i < size * size; i++) seed(out, src, i, height[i] < sea);
+  propagate(size, wrap, out, src, ky);
+}
+
+/**
+ * The reverse of computeCoastDistance: distance from each ocean cell to the
+ * nearest land cell in map widths (0 on land, Infinity if there is no land).
+ * `src` receives the nearest land cell per cell.
+ */
+export function computeShoreDistance(
+  height: Float32Array,
+  size: number,
+  sea: number,
+  wrap: WrapMode,
+  out: Float32Array,
+  ky = 1,
+  src: Int32Array = new Int32Array(size * size)
+) {
+  for (let i = 0; i < size * size; i++) seed(out, src, i, height[i] >= sea);
+  propagate(size, wrap, out, src, ky);
+}
+
+/**
+ * Distance (map widths) from every cell to the nearest cell already seeded in
+ * `out`/`src` (out 0 and src = own index; everything else Infinity / -1).
+ */
+export function propagate(size: number, wrap: WrapMode, out: Float32Array, src: Int32Array, ky = 1) {
+  const wx = wrap !== "none";
+  const wy = wrap === "xy";
+  const inv = 1 / size;
+
+  // wrap-aware offset between two coordinates
+  const dOff = (a: number, b: number, wraps: boolean) => {
+    let d = a - b;
+    if (wraps) {
+      if (d > size / 2) d -= size;
+      else if (d < -size / 2) d += size;
+    }
+    return d;
+  };
+
+  const relax = (x: number, y: number, ox: number, oy: number) => {
+    let nx = x + ox, ny = y + oy;
+    if (wx) nx = (nx + size) % size;
+    if (wy) ny = (ny + size) % size;
+    if (nx < 0 || ny < 0 || nx >= size || ny >= size) return;
+    const s = src[ny * size + nx];
+    if (s < 0) return;
+    const sx = s % size, sy = (s - sx) / size;
+    const d = Math.hypot(dOff(x, sx, wx), dOff(y, sy, wy) * ky) * inv;
+    const i = y * size + x;
+    if (d < out[i]) { out[i] = d; src[i] = s; }
+  };
+
+  for (let pass = 0; pass < 2; pass++) {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        relax(x, y, -1, -1); relax(x, y, 0, -1); relax(x, y, 1, -1); relax(x, y, -1, 0);
+      }
+    }
+    for (let y = size - 1; y >= 0; y--) {
+      for (let x = size - 1; x >= 0; x--) {
+        relax(x, y, 1, 1); relax(x, y, 0, 1); relax(x, y, -1, 1); relax(x, y, 1, 0);
+      }
+    }
+  }
+}
+
+/** Mark cell `i` as a seed (distance 0) or as not yet reached. */
+export function seed(out: Float32Array, src: Int32Array, i: number, isSeed: boolean) {
+  if (isSeed) { src[i] = i; out[i] = 0; }
+  else { src[i] = -1; out[i] = Infinity; }
+}
+
+/** True if any cell in `rect` crossed sea level since `coastDist` was computed. */
+export function coastlineChanged(
+  height: Float32Array,
+  coastDist: Float32Array,
+  size: number,
+  sea: number,
+  rect: DirtyRect
+): boolean {
+  for (let y = rect.y0; y <= rect.y1; y++) {
+    for (let x = rect.x0; x <= rect.x1; x++) {
+      const i = y * size + x;
+      if ((height[i] < sea) !== (coastDist[i] === 0)) return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,210 @@
+// /src/sim/erosion.ts
+// Droplet-based hydraulic erosion. Each droplet rolls downhill with some
+// inertia, picks up sediment while it is fast and under capacity, and drops
+// it when it slows down or climbs, carving valleys and leaving sediment fans.
+// Deterministic: droplet spawns come from xorshift32 seeded per run/stroke.
+
+import type { Brush, SimParams } from "../model/types";
+import { strokeBounds, type DirtyRect } from "./brush";
+import { xorshift32, rowSpacing } from "./noise";
+
+// Fixed tuning that rarely needs a slider
+const GRAVITY = 4;
+const MIN_SLOPE = 0.0005;   // keeps some capacity on flats
+const MAX_LIFETIME = 48;    // steps per droplet
+const ERODE_RADIUS = 2;     // column widths; spreads erosion to avoid pits
+const PROGRESS_CHUNKS = 20; // onProgress calls per full run
+
+type Rng = () => number;
+
+/**
+ * Erode the whole heightfield with `params.erosion.iterations` droplets.
+ * Droplets stop (dumping their sediment) when they reach the sea.
+ * `onProgress` receives 0..1 as droplet batches complete.
+ */
+export function hydraulicErosion(
+  height: Float32Array,
+  size: number,
+  seed: number,
+  params: SimParams,
+  onProgress?: (pct: number) => void
+) {
+  const count = Math.max(0, Math.floor(params.erosion.iterations));
+  if (count === 0) return;
+  const rng = xorshift32(seed ^ 0x68e31da4);
+  const all: DirtyRect = { x0: 0, y0: 0, x1: size - 1, y1: size - 1 };
+  const spawn = (r: Rng) => [r() * (size - 1), r() * (size - 1)] as const;
+
+  const chunk = Math.max(1, Math.ceil(count / PROGRESS_CHUNKS));
+  for (let done = 0; done < count; done += chunk) {
+    runDroplets(height, size, Math.min(chunk, count - done), rng, spawn, all, params);
+    onProgress?.(Math.min(1, (done + chunk) / count));
+  }
+}
+
+/**
+ * Local erosion for the 'erode' brush: droplets spawn inside the brush circle
+ * and die when they leave the stroke bounds, so only the returned rect changes.
+ * Droplet count scales with brush area × strength.
+ */
+export function erodeBrush(
+  height: Float32Array,
+  size: number,
+  cx: number,
+  cy: number,
+  brush: Brush,
+  seed: number,
+  params: SimParams
+): DirtyRect {
+  const { radius, strength } = brush;
+  const ky = rowSpacing(params);
+  const bounds = strokeBounds(cx, cy, radius + ERODE_RADIUS + 8, size, 1, params.wrap, ky);
+  const count = Math.ceil(Math.PI * radius * radius * strength * 2);
+  // Seed per stroke position so replaying a stroke gives the same result
+  const rng = xorshift32(seed ^ Math.imul(Math.floor(cx), 73856093) ^ Math.imul(Math.floor(cy), 19349663));
+  const spawn = (r: Rng) => {
+    const a = r() * Math.PI * 2;
+    const d = Math.sqrt(r()) * radius;
+    return [cx + Math.cos(a) * d, cy + (Math.sin(a) * d) / ky] as const;
+  };
+  runDroplets(height, size, count, rng, spawn, bounds, params);
+  return bounds;
+}
+
+/* ---------- core ---------- */
+
+function runDroplets(
+  height: Float32Array,
+  size: number,
+  count: number,
+  rng: Rng,
+  spawn: (r: Rng) => readonly [number, number],
+  bounds: DirtyRect,
+  params: SimParams
+) {
+  const { inertia, capacity, deposition, erosion, evaporation } = params.erosion;
+  const sea = params.climate.seaLevel;
+  const wx = params.wrap !== "none";
+  const wy = params.wrap === "xy";
+  const ky = rowSpacing(params); // rows are this many column widths tall
+
+  // Grid index for a (possibly out-of-range) cell, or -1 outside a non-wrapping edge
+  const cell = (x: number, y: number) => {
+    if (wx) x = ((x % size) + size) % size;
+    if (wy) y = ((y % size) + size) % size;
+    if (x < 0 || y < 0 || x >= size || y >= size) return -1;
+    return y * size + x;
+  };
+  const hAt = (x: number, y: number) => {
+    const i = cell(x, y);
+    return i < 0 ? height[cell(Math.min(size - 1, Math.max(0, x)), Math.min(size - 1, Math.max(0, y)))] : height[i];
+  };
+
+  // Droplets must stay far enough inside `bounds` that the erosion footprint
+  // does too. An axis covered end to end only needs the cell to exist.
+  const m = ERODE_RADIUS + 1, my = Math.ceil(ERODE_RADIUS / ky) + 1;
+  const fullX = bounds.x0 === 0 && bounds.x1 === size - 1;
+  const fullY = bounds.y0 === 0 && bounds.y1 === size - 1;
+  const inside = (x: number, y: number) => {
+    const c = cell(Math.floor(x), Math.floor(y));
+    if (c < 0) return false;
+    const ix = c % size, iy = (c - ix) / size;
+    return (fullX || (ix >= bounds.x0 + m && ix <= bounds.x1 - m)) &&
+           (fullY || (iy >= bounds.y0 + my && iy <= bounds.y1 - my));
+  };
+
+  // Bilinear height + gradient (per column width) at a fractional position
+  const sample = (x: number, y: number) => {
+    const ix = Math.floor(x), iy = Math.floor(y);
+    const u = x - ix, v = y - iy;
+    const h00 = hAt(ix, iy), h10 = hAt(ix + 1, iy);
+    const h01 = hAt(ix, iy + 1), h11 = hAt(ix + 1, iy + 1);
+    return {
+      h: h00 * (1 - u) * (1 - v) + h10 * u * (1 - v) + h01 * (1 - u) * v + h11 * u * v,
+      gx: (h10 - h00) * (1 - v) + (h11 - h01) * v,
+      gy: ((h01 - h00) * (1 - u) + (h11 - h10) * u) / ky,
+    };
+  };
+
+  // Spread `amount` over the 4 nodes around (x,y) (bilinear weights)
+  const deposit4 = (x: number, y: number, amount: number) => {
+    const ix = Math.floor(x), iy = Math.floor(y);
+    const u = x - ix, v = y - iy;
+    const add = (cx: number, cy: number, w: number) => {
+      const i = cell(cx, cy);
+      if (i >= 0) height[i] = Math.min(1, height[i] + amount * w);
+    };
+    add(ix, iy, (1 - u) * (1 - v));
+    add(ix + 1, iy, u * (1 - v));
+    add(ix, iy + 1, (1 - u) * v);
+    add(ix + 1, iy + 1, u * v);
+  };
+
+  // Remove `amount` from a small disk with linear falloff (avoids single-cell pits)
+  const erodeDisk = (x: number, y: number, amount: number) => {
+    const ix = Math.floor(x), iy = Math.floor(y);
+    const ry = Math.ceil(ERODE_RADIUS / ky);
+    const weight = (ox: number, oy: number) => Math.max(0, ERODE_RADIUS - Math.hypot(ix + ox - x, (iy + oy - y) * ky));
+    let wsum = 0;
+    for (let oy = -ry; oy <= ry; oy++)
+      for (let ox = -ERODE_RADIUS; ox <= ERODE_RADIUS; ox++)
+        wsum += weight(ox, oy);
+    if (wsum <= 0) return;
+    for (let oy = -ry; oy <= ry; oy++) {
+      for (let ox = -ERODE_RADIUS; ox <= ERODE_RADIUS; ox++) {
+        const w = weight(ox, oy) / wsum;
+        if (w <= 0) continue;
+        const i = cell(ix + ox, iy + oy);
+        if (i >= 0) height[i] = Math.max(0, height[i] - amount * w);
+      }
+    }
+  };
+
+  for (let d = 0; d < count; d++) {
+    let [x, y] = spawn(rng);
+    if (!inside(x, y)) continue;
+    let dx = 0, dy = 0;
+    let speed = 1, water = 1, sediment = 0;
+
+    for (let step = 0; step < MAX_LIFETIME; step++) {
+      const here = sample(x, y);
+      if (here.h < sea) {
+        // reached the sea: drop everything (sediment fans at river mouths)
+        deposit4(x, y, sediment);
+        break;
+      }
+
+      // Blend previous direction with downhill gradient
+      dx = dx * inertia - here.gx * (1 - inertia);
+      dy = dy * inertia - here.gy * (1 - inertia);
+      const len = Math.hypot(dx, dy);
+      if (len < 1e-9) break; // perfectly flat: droplet stalls
+      dx /= len; dy /= len;
+
+      const ox = x, oy = y;
+      x += dx; y += dy / ky; // one column width along the (true) direction
+      if (!inside(x, y)) {
+        deposit4(ox, oy, sediment);
+        break;
+      }
+
+      const dh = sample(x, y).h - here.h;
+      const cap = Math.max(-dh, MIN_SLOPE) * speed * water * capacity;
+
+      if (sediment > cap || dh > 0) {
+        // climbing: fill the pit up to our height; otherwise drop the excess
+        const amount = dh > 0 ? Math.min(dh, sediment) : (sediment - cap) * deposition;
+        sediment -= amount;
+        deposit4(ox, oy, amount);
+      } else {
+        // never dig deeper than the drop we just made
+        const amount = Math.min((cap - sediment) * erosion, -dh);
+        erodeDisk(ox, oy, amount);
+        sediment += amount;
+      }
+
+      speed = Math.sqrt(Math.max(0, speed * speed - dh * GRAVITY));
+      water *= 1 - evaporation;
+    }
+  }
+}
@@ -0,0 +1,127 @@
+// /src/sim/glaciers.ts
+// Glaciers and ice sheets: a mass-balance / ice-flow model run to a rough
+// steady state, then glacial erosion.
+// - Snow accumulates where it is colder than the snowline (more where wetter)
+//   and ice melts where it is warmer, so ice grows on cold wet peaks and
+//   polar land and thins out downslope.
+// - Ice creeps down its own surface slope (height + ice) with a mobility
+//   that grows with thickness, filling valleys and spreading into sheets.
+// - Ice reaching the ocean calves off.
+// - Sliding ice wears the bed down in proportion to how much ice moved
+//   through a cell, smoothed across the glacier so valleys come out U-shaped.
+
+import type { Fields, SimParams } from "../model/types";
+
+/** Thinner ice than this is ignored (no glacier surface, no rendering). */
+export const GLACIER_MIN_ICE = 0.002;
+
+const ACCUMULATION = 0.0015; // ice added per pass at full moisture, well below the snowline
+const MELT = 0.01;           // ice lost per pass per unit of temperature above the snowline
+const FULL_FLOW = 0.05;      // ice this thick moves at the full `flow` rate
+const MAX_EXCHANGE = 0.2;    // per-neighbour cap, keeps the explicit flow step stable
+const CARVE_DEPTH = 0.06;    // bed lowering at carve = 1 under the busiest ice
+const U_PASSES = 3;          // smoothing passes that widen V profiles into U troughs
+const LAND_MARGIN = 0.001;   // carving never pushes land below sea level
+
+const N4_X = [1, -1, 0, 0];
+const N4_Y = [0, 0, 1, -1];
+
+/**
+ * Fill `fields.ice` (thickness in height units) from `fields.temperature` and
+ * `fields.moisture`, and carve `fields.height` under it when `carve` > 0.
+ * Returns true if the height changed (climate should then be recomputed).
+ */
+export function computeGlaciers(fields: Fields, size: number, params: SimParams): boolean {
+  const { iterations, snowline, accumulation, flow, carve } = params.glaciers;
+  const { height, temperature, moisture, ice } = fields;
+  const sea = params.climate.seaLevel;
+  const n = size * size;
+  ice.fill(0);
+  if (iterations <= 0) return false;
+
+  // 4-neighbour indices (right, left, down, up; -1 off a non-wrapping edge)
+  const wx = params.wrap !== "none";
+  const wy = params.wrap === "xy";
+  const nbr = new Int32Array(n * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      for (let k = 0; k < 4; k++) {
+        let nx = x + N4_X[k], ny = y + N4_Y[k];
+        if (wx) nx = (nx + size) % size;
+        if (wy) ny = (ny + size) % size;
+        nbr[(y * size + x) * 4 + k] = nx < 0 || ny < 0 || nx >= size || ny >= size ? -1 : ny * size + nx;
+      }
+    }
+  }
+
+  // Mass balance per pass
+  const balance = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    const dt = snowline - temperature[i];
+    balance[i] = dt > 0
+      ? ACCUMULATION * accumulation * moisture[i] * Math.min(1, dt / snowline)
+      : MELT * dt;
+  }
+
+  const delta = new Float32Array(n);
+  const moved = new Float32Array(n); // ice that flowed out of each cell, summed over passes
+  for (let pass = 0; pass < iterations; pass++) {
+    for (let i = 0; i < n; i++) {
+      ice[i] = height[i] < sea ? 0 : Math.max(0, ice[i] + balance[i]);
+    }
+
+    // Exchange with each right/down neighbour once; deltas are applied after
+    // the sweep so the result doesn't depend on scan order
+    delta.fill(0);
+    for (let i = 0; i < n; i++) {
+      for (let k = 0; k < 4; k += 2) {
+        const j = nbr[i * 4 + k];
+        if (j < 0 || ice[i] + ice[j] === 0) continue;
+        const drop = height[i] + ice[i] - height[j] - ice[j];
+        const from = drop > 0 ? i : j;
+        const mobility = Math.min(MAX_EXCHANGE, flow * Math.min(1, ice[from] / FULL_FLOW));
+        // never move more than a quarter of the donor's ice (it has four neighbours)
+        const q = Math.min(mobility * Math.abs(drop), ice[from] / 4);
+        const to = from === i ? j : i;
+        delta[from] -= q;
+        delta[to] += q;
+        moved[from] += q;
+      }
+    }
+    for (let i = 0; i < n; i++) ice[i] += delta[i];
+  }
+  for (let i = 0; i < n; i++) {
+    if (height[i] < sea || ice[i] < GLACIER_MIN_ICE) ice[i] = 0;
+  }
+
+  if (carve <= 0) return false;
+
+  // Erosion ∝ sqrt of the ice discharge, normalized to the busiest cell
+  let maxMoved = 0;
+  for (let i = 0; i < n; i++) if (moved[i] > maxMoved) maxMoved = moved[i];
+  if (maxMoved === 0) return false;
+  let wear = new Float32Array(n);
+  for (let i = 0; i < n; i++) wear[i] = Math.sqrt(moved[i] / maxMoved);
+
+  // Spread the wear across the ice so the trough floor flattens out
+  for (let pass = 0; pass < U_PASSES; pass++) {
+    const next = new Float32Array(n);
+    for (let i = 0; i < n; i++) {
+      if (ice[i] === 0) continue;
+      let sum = wear[i], count = 1;
+      for (let k = 0; k < 4; k++) {
+        const j = nbr[i * 4 + k];
+        if (j >= 0 && ice[j] > 0) { sum += wear[j]; count++; }
+      }
+      next[i] = sum / count;
+    }
+    wear = next;
+  }
+
+  for (let i = 0; i < n; i++) {
+    if (ice[i] === 0) continue;
+    const floor = Math.min(height[i], sea + LAND_MARGIN);
+    height[i] = Math.max(floor, height[i] - carve * CARVE_DEPTH * wear[i]);
+  }
+  return true;
+}
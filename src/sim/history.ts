@@ -0,0 +1,148 @@
+// /src/sim/history.ts
+// Undo/redo for brush strokes, kept in the worker. A stroke snapshots the
+// editable layers when it starts; when it ends, only the rect it touched is
+// kept, as before/after patches of the layers that actually changed. Old
+// entries are dropped once the stack outgrows its memory budget.
+
+import type { BrushKind } from "../model/types";
+import type { DirtyRect } from "./brush";
+
+/** Layers a brush can edit; everything else is derived from them. */
+export type EditLayers = {
+  height: Float32Array;
+  rain: Float32Array;  // user-painted moisture (rain brush)
+  mask: Float32Array;  // user-painted land mask (mask/unmask brushes)
+};
+type LayerName = keyof EditLayers;
+const LAYER_NAMES: LayerName[] = ["height", "rain", "mask"];
+
+/** What the UI lists per step. */
+export type HistoryItem = { id: number; kind: BrushKind; rect: DirtyRect; cells: number };
+
+type Patch = { layer: LayerName; before: Float32Array; after: Float32Array };
+type Entry = HistoryItem & { patches: Patch[]; bytes: number };
+
+export type HistoryState = {
+  size: number;
+  budget: number;              // bytes of patches kept across undo + redo
+  undo: Entry[];
+  redo: Entry[];
+  nextId: number;
+  stroke: { kind: BrushKind; rect: DirtyRect | null } | null; // open stroke
+  start: EditLayers;           // layers as they were when the open stroke began
+};
+
+export function createHistory(size: number, budget = 64 * 1024 * 1024): HistoryState {
+  const n = size * size;
+  return {
+    size, budget, undo: [], redo: [], nextId: 1, stroke: null,
+    start: { height: new Float32Array(n), rain: new Float32Array(n), mask: new Float32Array(n) },
+  };
+}
+
+/** Forget every step (e.g. after the terrain is regenerated). */
+export function clearHistory(h: HistoryState) {
+  h.undo = [];
+  h.redo = [];
+  h.stroke = null;
+}
+
+/**
+ * Open a stroke (snapshotting `layers`) unless one is already open. Call
+ * before its first dab modifies the layers. Returns true if a stroke was opened.
+ */
+export function beginStroke(h: HistoryState, layers: EditLayers, kind: BrushKind): boolean {
+  if (h.stroke) return false;
+  for (const name of LAYER_NAMES) h.start[name].set(layers[name]);
+  h.stroke = { kind, rect: null };
+  return true;
+}
+
+/** Add the rect a dab of the open stroke changed. */
+export function extendStroke(h: HistoryState, rect: DirtyRect) {
+  if (!h.stroke) return;
+  const r = h.stroke.rect;
+  h.stroke.rect = r
+    ? { x0: Math.min(r.x0, rect.x0), y0: Math.min(r.y0, rect.y0), x1: Math.max(r.x1, rect.x1), y1: Math.max(r.y1, rect.y1) }
+    : rect;
+}
+
+/**
+ * Close the open stroke and push it as one undo step (nothing if it changed
+ * nothing). Clears the redo stack. Returns true if a step was added.
+ */
+export function endStroke(h: HistoryState, layers: EditLayers): boolean {
+  const stroke = h.stroke;
+  h.stroke = null;
+  if (!stroke?.rect) return false;
+
+  const rect = stroke.rect;
+  const patches: Patch[] = [];
+  for (const layer of LAYER_NAMES) {
+    const before = crop(h.start[layer], h.size, rect);
+    const after = crop(layers[layer], h.size, rect);
+    if (!sameValues(before, after)) patches.push({ layer, before, after });
+  }
+  if (!patches.length) return false;
+
+  const cells = (rect.x1 - rect.x0 + 1) * (rect.y1 - rect.y0 + 1);
+  h.undo.push({ id: h.nextId++, kind: stroke.kind, rect, cells, patches, bytes: cells * 8 * patches.length });
+  h.redo = [];
+  enforceBudget(h);
+  return true;
+}
+
+/** Step back: restore the last step's "before" patches. Returns the rect to recompute. */
+export function undo(h: HistoryState, layers: EditLayers): DirtyRect | null {
+  const e = h.undo.pop();
+  if (!e) return null;
+  for (const p of e.patches) paste(layers[p.layer], h.size, e.rect, p.before);
+  h.redo.push(e);
+  return e.rect;
+}
+
+/** Step forward again: reapply the last undone step's "after" patches. */
+export function redo(h: HistoryState, layers: EditLayers): DirtyRect | null {
+  const e = h.redo.pop();
+  if (!e) return null;
+  for (const p of e.patches) paste(layers[p.layer], h.size, e.rect, p.after);
+  h.undo.push(e);
+  return e.rect;
+}
+
+/** Undo and redo steps for the UI, oldest first. */
+export function historyItems(h: HistoryState) {
+  const item = ({ id, kind, rect, cells }: Entry): HistoryItem => ({ id, kind, rect, cells });
+  return { undo: h.undo.map(item), redo: h.redo.map(item) };
+}
+
+// Drop the oldest redo steps first (least likely to be wanted), then the oldest undo steps
+function enforceBudget(h: HistoryState) {
+  let total = 0;
+  for (const e of h.undo) total += e.bytes;
+  for (const e of h.redo) total += e.bytes;
+  while (total > h.budget && h.redo.length) total -= h.redo.shift()!.bytes;
+  // always keep the newest step, even if it alone is over budget
+  while (total > h.budget && h.undo.length > 1) total -= h.undo.shift()!.bytes;
+}
+
+function crop(src: Float32Array, size: number, r: DirtyRect) {
+  const w = r.x1 - r.x0 + 1;
+  const out = new Float32Array(w * (r.y1 - r.y0 + 1));
+  for (let y = r.y0; y <= r.y1; y++) {
+    out.set(src.subarray(y * size + r.x0, y * size + r.x1 + 1), (y - r.y0) * w);
+  }
+  return out;
+}
+
+function paste(dst: Float32Array, size: number, r: DirtyRect, patch: Float32Array) {
+  const w = r.x1 - r.x0 + 1;
+  for (let y = r.y0; y <= r.y1; y++) {
+    dst.set(patch.subarray((y - r.y0) * w, (y - r.y0 + 1) * w), y * size + r.x0);
+  }
+}
+
+function sameValues(a: Float32Array, b: Float32Array) {
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
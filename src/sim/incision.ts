@@ -0,0 +1,115 @@
+// /src/sim/incision.ts
+// River incision: feeds computeRivers' discharge back into the terrain.
+// - Channels cut down by rate × sqrt(flow), relative to the map's biggest
+//   river, so trunk rivers dig deepest and the bed still drops downstream.
+// - The cut is spread into a V-shaped valley whose half-width grows with the
+//   river; overlapping valleys take the deeper cut instead of adding up.
+// - Optionally, big rivers build a fan of sediment where they reach the sea;
+//   its core rises just above sea level as new delta land.
+// No randomness and a fixed visiting order, so the result is deterministic.
+
+import type { Fields, SimParams } from "../model/types";
+import { D8_X, D8_Y, NO_FLOW } from "./rivers";
+import { rowSpacing } from "./noise";
+
+const INCISION_DEPTH = 0.05; // cut at rate = 1 under the biggest river
+const LAND_MARGIN = 0.001;   // carving never pushes land below sea level
+const DELTA_MIN_FLOW = 0.25; // rivers below this share of the biggest one don't build deltas
+const DELTA_SIZE = 0.03;     // fan radius (map widths) for the biggest river
+const DELTA_TOP = 0.01;      // fan core height above sea level
+const DELTA_DROP = 0.02;     // fan rim depth below sea level
+
+/**
+ * Lower `fields.height` along the rivers in `fields.rivers`/`fields.flow`
+ * (run computeRivers first) and, with `incision.deltas`, raise fans at river
+ * mouths. Returns true if the height changed: the caller then has to redo the
+ * coast distance, climate and rivers on the new terrain.
+ */
+export function carveRivers(fields: Fields, size: number, params: SimParams): boolean {
+  const { rate, width, deltas } = params.incision;
+  if (rate <= 0 && !deltas) return false;
+  const { height, rivers, flow, flowDir } = fields;
+  const sea = params.climate.seaLevel;
+  const n = size * size;
+  const wx = params.wrap !== "none";
+  const wy = params.wrap === "xy";
+  const ky = rowSpacing(params);
+
+  let maxFlow = 0;
+  for (let i = 0; i < n; i++) if (rivers[i] && flow[i] > maxFlow) maxFlow = flow[i];
+  if (maxFlow === 0) return false;
+  const invMax = 1 / maxFlow;
+
+  // Visit every cell within `r` column widths of (x, y), wrap-aware
+  const disc = (x: number, y: number, r: number, visit: (j: number, ox: number, oy: number, d: number) => void) => {
+    const ri = Math.ceil(r), rj = Math.ceil(r / ky);
+    for (let oy = -rj; oy <= rj; oy++) {
+      let ny = y + oy;
+      if (wy) ny = (ny + size) % size;
+      else if (ny < 0 || ny >= size) continue;
+      for (let ox = -ri; ox <= ri; ox++) {
+        const d = Math.hypot(ox, oy * ky);
+        if (d > r) continue;
+        let nx = x + ox;
+        if (wx) nx = (nx + size) % size;
+        else if (nx < 0 || nx >= size) continue;
+        visit(ny * size + nx, ox, oy, d);
+      }
+    }
+  };
+
+  let changed = false;
+
+  if (rate > 0) {
+    const cut = new Float32Array(n);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const i = y * size + x;
+        if (!rivers[i]) continue;
+        const s = Math.sqrt(flow[i] * invMax);
+        const depth = rate * INCISION_DEPTH * s;
+        const r = Math.max(1, width * size * s);
+        disc(x, y, r, (j, _ox, _oy, d) => {
+          const c = depth * (1 - d / (r + 1));
+          if (c > cut[j]) cut[j] = c;
+        });
+      }
+    }
+    for (let i = 0; i < n; i++) {
+      const h = height[i];
+      if (cut[i] === 0 || h < sea) continue;
+      height[i] = Math.max(Math.min(h, sea + LAND_MARGIN), h - cut[i]);
+      changed = true;
+    }
+  }
+
+  if (deltas) {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const i = y * size + x;
+        const k = flowDir[i];
+        const share = flow[i] * invMax;
+        if (!rivers[i] || share < DELTA_MIN_FLOW || k === NO_FLOW) continue;
+        let mx = x + D8_X[k], my = y + D8_Y[k];
+        if (wx) mx = (mx + size) % size;
+        if (wy) my = (my + size) % size;
+        if (mx < 0 || my < 0 || mx >= size || my >= size || height[my * size + mx] >= sea) continue;
+
+        // River mouth: fan out seaward along the flow direction
+        const len = Math.hypot(D8_X[k], D8_Y[k] * ky);
+        const dx = D8_X[k] / len, dy = (D8_Y[k] * ky) / len;
+        const r = Math.max(2, DELTA_SIZE * size * Math.sqrt(share));
+        disc(x, y, r, (j, ox, oy, d) => {
+          if (height[j] >= sea) return;
+          const ahead = d === 0 ? 1 : (ox * dx + oy * ky * dy) / d; // -1 behind … 1 straight out
+          const spread = Math.min(1, Math.max(0, (ahead + 0.3) / 1.3));
+          const w = (1 - d / r) * spread;
+          const top = sea - DELTA_DROP + (DELTA_DROP + DELTA_TOP) * w;
+          if (top > height[j]) { height[j] = top; changed = true; }
+        });
+      }
+    }
+  }
+
+  return changed;
+}
@@ -0,0 +1,160 @@
+// /src/sim/masks.ts
+// Land/ocean layout masks. A mask is a Float32Array in [0,1] (1 = keep land,
+// 0 = push to ocean) that multiplies the raw noise heightfield, so continents
+// can be placed without fighting the noise.
+
+import type { MaskParams, WrapMode } from "../model/types";
+import type { DirtyRect } from "./brush";
+import { xorshift32 } from "./noise";
+
+const smoothstep = (e0: number, e1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - e0) / (e1 - e0)));
+  return t * t * (3 - 2 * t);
+};
+
+/**
+ * Fill `out` with the generated mask for `params.kind`.
+ * - none:        all ones
+ * - continent:   one radial landmass centered on the map
+ * - archipelago: `params.islands` seeded centers with random radii
+ * - coastline:   land on one side of a seeded straight coast
+ * - painted:     not generated here; the worker keeps the user-painted layer
+ *
+ * `coverage` is the radius (continent; archipelago islands scale from it) or the
+ * fraction of the map that stays land (coastline); `falloff` is the width of
+ * the smooth transition to ocean, in the same units.
+ * Distances wrap on wrapped axes so masks don't introduce seams.
+ */
+export function buildMask(
+  out: Float32Array,
+  size: number,
+  seed: number,
+  params: MaskParams,
+  wrap: WrapMode = "none"
+) {
+  const { kind, coverage, falloff } = params;
+  const fall = Math.max(1e-3, falloff);
+  const wx = wrap !== "none";
+  const wy = wrap === "xy";
+
+  // Cell → [0,1]: a wrapped axis spans one period of `size` cells, so its
+  // last column doesn't repeat the first
+  const du = wx ? 1 / size : 1 / (size - 1);
+  const dv = wy ? 1 / size : 1 / (size - 1);
+
+  // Normalized, wrap-aware distance between two points in [0,1]²
+  const dist = (ax: number, ay: number, bx: number, by: number) => {
+    let dx = Math.abs(ax - bx), dy = Math.abs(ay - by);
+    if (wx) dx = Math.min(dx, 1 - dx);
+    if (wy) dy = Math.min(dy, 1 - dy);
+    return Math.sqrt(dx * dx + dy * dy);
+  };
+
+  switch (kind) {
+    case "continent": {
+      for (let y = 0; y < size; y++) {
+        const v = y * dv;
+        for (let x = 0; x < size; x++) {
+          const u = x * du;
+          // 0 at center → ~1 at corners (matches the old radial island mask)
+          const r = dist(u, v, 0.5, 0.5) * Math.SQRT2;
+          out[y * size + x] = 1 - smoothstep(coverage, coverage + fall, r);
+        }
+      }
+      break;
+    }
+
+    case "archipelago": {
+      const rng = xorshift32(seed ^ 0x27d4eb2f);
+      const n = Math.max(1, Math.floor(params.islands));
+      const cx = new Float32Array(n), cy = new Float32Array(n), cr = new Float32Array(n);
+      for (let k = 0; k < n; k++) {
+        // keep centers off the border unless that axis wraps
+        cx[k] = wx ? rng() : 0.1 + 0.8 * rng();
+        cy[k] = wy ? rng() : 0.1 + 0.8 * rng();
+        cr[k] = coverage * 0.25 * (0.5 + rng());
+      }
+      for (let y = 0; y < size; y++) {
+        const v = y * dv;
+        for (let x = 0; x < size; x++) {
+          const u = x * du;
+          let m = 0;
+          for (let k = 0; k < n; k++) {
+            const r = dist(u, v, cx[k], cy[k]);
+            const mk = 1 - smoothstep(cr[k], cr[k] + fall, r);
+            if (mk > m) m = mk;
+          }
+          out[y * size + x] = m;
+        }
+      }
+      break;
+    }
+
+    case "coastline": {
+      // Project onto a seeded direction; land where the projection < coverage.
+      // On wrapped maps the coast runs east–west so it never crosses the X seam.
+      const rng = xorshift32(seed ^ 0x165667b1);
+      const a = wx ? (rng() < 0.5 ? Math.PI / 2 : -Math.PI / 2) : rng() * Math.PI * 2;
+      const dx = Math.cos(a), dy = Math.sin(a);
+      // range of the projection over the unit square, to map it to 0..1
+      const lo = Math.min(0, dx) + Math.min(0, dy);
+      const hi = Math.max(0, dx) + Math.max(0, dy);
+      const inv = 1 / (hi - lo);
+      for (let y = 0; y < size; y++) {
+        const v = y * dv;
+        for (let x = 0; x < size; x++) {
+          const u = x * du;
+          const t = (u * dx + v * dy - lo) * inv; // 0..1 across the map
+          out[y * size + x] = 1 - smoothstep(coverage - fall * 0.5, coverage + fall * 0.5, t);
+        }
+      }
+      break;
+    }
+
+    case "none":
+    case "painted":
+    default:
+      out.fill(1);
+      break;
+  }
+}
+
+/**
+ * Follow a mask edit inside `rect` without rebuilding the height: adds
+ * raw × (new − old mask), so sculpting and the later terrain passes stay.
+ * `before` holds the old mask values of the rect, row-major. Clamps to 0..1.
+ */
+export function applyMaskDelta(
+  out: Float32Array,
+  raw: Float32Array,
+  mask: Float32Array,
+  before: Float32Array,
+  size: number,
+  rect: DirtyRect
+) {
+  const w = rect.x1 - rect.x0 + 1;
+  for (let y = rect.y0; y <= rect.y1; y++) {
+    for (let x = rect.x0; x <= rect.x1; x++) {
+      const i = y * size + x;
+      const v = out[i] + raw[i] * (mask[i] - before[(y - rect.y0) * w + x - rect.x0]);
+      out[i] = v < 0 ? 0 : v > 1 ? 1 : v;
+    }
+  }
+}
+
+/** out[i] = raw[i] * mask[i], optionally only inside a rect (inclusive). */
+export function applyMask(
+  out: Float32Array,
+  raw: Float32Array,
+  mask: Float32Array,
+  size: number,
+  rect?: DirtyRect
+) {
+  const r = rect ?? { x0: 0, y0: 0, x1: size - 1, y1: size - 1 };
+  for (let y = r.y0; y <= r.y1; y++) {
+    for (let x = r.x0; x <= r.x1; x++) {
+      const i = y * size + x;
+      out[i] = raw[i] * mask[i];
+    }
+  }
+}
@@ -1,7 +1,7 @@
-// Deterministic 2D value-noise + fBM + domain warp.
+// Deterministic 2D and 3D noise backends (value, Perlin, simplex, Worley) + fBM + domain warp.
 // Keep the math here and call it from the worker for height generation.
 
-import type { SimParams, NoiseParams } from "../model/types";
+import type { SimParams, NoiseParams, NoiseKind, WrapMode } from "../model/types";
 
 // e ∈ [0,1] from generateHeightField()
 // paint onto a canvas' ImageData
@@ -16,7 +16,7 @@ export function renderHeightfieldToCanvas(
 
   for (let i = 0; i < H.length; i++) {
     const e = H[i];                 // normalized elevation
-    const isWater = e <= seaLevel;  // <- slider threshold
+    const isWater = e < seaLevel;   // <- slider threshold
 
     // simple palettes (swap for your own)
     let r: number, g: number, b: number;
@@ -46,7 +46,7 @@ export function renderHeightfieldToCanvas(
 
 export function makeWaterMask(H: Float32Array, seaLevel: number): Uint8Array {
   const M = new Uint8Array(H.length);
-  for (let i = 0; i < H.length; i++) M[i] = H[i] <= seaLevel ? 1 : 0;
+  for (let i = 0; i < H.length; i++) M[i] = H[i] < seaLevel ? 1 : 0;
   return M;
 }
 
@@ -66,24 +66,41 @@ export function xorshift32(seed: number) {
 /** Quintic fade (smoother than cubic) */
 const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
 const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
+
+/**
+ * Shuffle 0..255 with a seeded Fisher–Yates and duplicate it to 512 entries
+ * so lattice lookups can skip the extra `& 255`.
+ */
+function buildPermutation(seed: number): Uint16Array {
+  const rng = xorshift32(seed);
+  const p = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) p[i] = i;
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    const t = p[i]; p[i] = p[j]; p[j] = t;
+  }
+  const perm = new Uint16Array(512);
+  for (let i = 0; i < 512; i++) perm[i] = p[i & 255];
+  return perm;
+}
+
+/**
+ * Anything fbm2D can sum octaves of.
+ * `sample` must be deterministic for a given seed and return values in [0,1].
+ */
+export interface NoiseSource2D {
+  sample(x: number, y: number, frequency?: number): number;
+}
 
 /**
  * Lattice hash: generate repeatable pseudo-random values at integer lattice points.
  * Uses a small permutation table seeded once.
  */
-export class ValueNoise2D {
+export class ValueNoise2D implements NoiseSource2D {
   private perm: Uint16Array; // 0..255 shuffled
   constructor(seed: number) {
-    const rng = xorshift32(seed);
-    const p = new Uint8Array(256);
-    for (let i = 0; i < 256; i++) p[i] = i;
-    for (let i = 255; i > 0; i--) {
-      const j = Math.floor(rng() * (i + 1));
-      const t = p[i]; p[i] = p[j]; p[j] = t;
-    }
-    const perm = new Uint16Array(512);
-    for (let i = 0; i < 512; i++) perm[i] = p[i & 255];
-    this.perm = perm;
+    this.perm = buildPermutation(seed);
   }
 
   /** Hash to [0,1) at integer lattice point */
@@ -125,14 +142,369 @@ export class ValueNoise2D {
   }
 }
 
-/** Fractal Brownian Motion using a 2D noise source */
+// 8 gradient directions for Perlin noise (axes + diagonals, not normalized:
+// the diagonals make the output reach roughly ±1).
+const PERLIN_GRAD_X = [1, -1, 1, -1, 1, -1, 0, 0];
+const PERLIN_GRAD_Y = [1, 1, -1, -1, 0, 0, 1, -1];
+
+/**
+ * Classic Perlin gradient noise. Gradients live on the lattice instead of
+ * values, so features are no longer aligned to the grid the way ValueNoise2D's are.
+ */
+export class GradientNoise2D implements NoiseSource2D {
+  private perm: Uint16Array;
+  constructor(seed: number) {
+    this.perm = buildPermutation(seed);
+  }
+
+  /** Dot product of the lattice gradient at (ix,iy) with the offset (dx,dy) */
+  private grad(ix: number, iy: number, dx: number, dy: number) {
+    const h = this.perm[(this.perm[ix & 255] + iy) & 255] & 7;
+    return PERLIN_GRAD_X[h] * dx + PERLIN_GRAD_Y[h] * dy;
+  }
+
+  /** Returns in [0,1] (0.5 is the zero crossing). */
+  sample(x: number, y: number, frequency = 1): number {
+    const fx = x * frequency;
+    const fy = y * frequency;
+
+    const x0 = Math.floor(fx);
+    const y0 = Math.floor(fy);
+    const tx = fx - x0;
+    const ty = fy - y0;
+
+    const g00 = this.grad(x0, y0, tx, ty);
+    const g10 = this.grad(x0 + 1, y0, tx - 1, ty);
+    const g01 = this.grad(x0, y0 + 1, tx, ty - 1);
+    const g11 = this.grad(x0 + 1, y0 + 1, tx - 1, ty - 1);
+
+    const u = fade(tx);
+    const v = fade(ty);
+
+    const n = lerp(lerp(g00, g10, u), lerp(g01, g11, u), v);
+    return clamp01(0.5 + 0.5 * n);
+  }
+}
+
+// OpenSimplex2 constants (see KdotJPG's reference implementation)
+const SKEW_2D = 0.366025403784439;      // (sqrt(3) - 1) / 2
+const UNSKEW_2D = -0.21132486540518713; // (1 / sqrt(3) - 1) / 2
+const RSQUARED_2D = 0.5;
+const OS2_NORM = 99.83685446303647;     // scales the kernel sum to roughly ±1
+
+// 24 unit gradients spread evenly around the circle
+const OS2_GRAD_X = new Float32Array(24);
+const OS2_GRAD_Y = new Float32Array(24);
+for (let i = 0; i < 24; i++) {
+  const a = (i + 0.5) * (Math.PI * 2 / 24);
+  OS2_GRAD_X[i] = Math.cos(a);
+  OS2_GRAD_Y[i] = Math.sin(a);
+}
+
+/**
+ * OpenSimplex2 noise: sums radial kernels on a skewed triangular lattice.
+ * No square-grid directional artifacts and cheaper than Perlin per sample.
+ */
+export class SimplexNoise2D implements NoiseSource2D {
+  private perm: Uint16Array;
+  constructor(seed: number) {
+    this.perm = buildPermutation(seed);
+  }
+
+  /** Kernel contribution of lattice vertex (ix,iy) at offset (dx,dy) */
+  private contrib(ix: number, iy: number, dx: number, dy: number) {
+    const a = RSQUARED_2D - dx * dx - dy * dy;
+    if (a <= 0) return 0;
+    const g = this.perm[(this.perm[ix & 255] + iy) & 255] % 24;
+    const a2 = a * a;
+    return a2 * a2 * (OS2_GRAD_X[g] * dx + OS2_GRAD_Y[g] * dy);
+  }
+
+  /** Returns in [0,1] (0.5 is the zero crossing). */
+  sample(x: number, y: number, frequency = 1): number {
+    const fx = x * frequency;
+    const fy = y * frequency;
+
+    // Skew into lattice space
+    const s = SKEW_2D * (fx + fy);
+    const xs = fx + s, ys = fy + s;
+    const xsb = Math.floor(xs), ysb = Math.floor(ys);
+    const xi = xs - xsb, yi = ys - ysb;
+
+    // Unskew back to get the offset from the base vertex
+    const t = (xi + yi) * UNSKEW_2D;
+    const dx0 = xi + t, dy0 = yi + t;
+
+    let n = this.contrib(xsb, ysb, dx0, dy0);
+    const d1 = 1 + 2 * UNSKEW_2D;
+    n += this.contrib(xsb + 1, ysb + 1, dx0 - d1, dy0 - d1);
+    if (dy0 > dx0) {
+      n += this.contrib(xsb, ysb + 1, dx0 - UNSKEW_2D, dy0 - (UNSKEW_2D + 1));
+    } else {
+      n += this.contrib(xsb + 1, ysb, dx0 - (UNSKEW_2D + 1), dy0 - UNSKEW_2D);
+    }
+
+    return clamp01(0.5 + 0.5 * n * OS2_NORM);
+  }
+}
+
+/**
+ * Cellular / Worley noise (F1): distance to the nearest jittered feature point,
+ * one point per lattice cell. Produces cell-like basins and crater fields.
+ */
+export class CellularNoise2D implements NoiseSource2D {
+  private perm: Uint16Array;
+  constructor(seed: number) {
+    this.perm = buildPermutation(seed);
+  }
+
+  private hash(ix: number, iy: number, salt: number) {
+    return this.perm[(this.perm[(this.perm[ix & 255] + iy) & 255] + salt) & 255];
+  }
+
+  /** Returns in [0,1]: 0 on a feature point, ~1 on the farthest cell edges. */
+  sample(x: number, y: number, frequency = 1): number {
+    const fx = x * frequency;
+    const fy = y * frequency;
+    const cx = Math.floor(fx);
+    const cy = Math.floor(fy);
+
+    let best = Infinity;
+    for (let oy = -1; oy <= 1; oy++) {
+      for (let ox = -1; ox <= 1; ox++) {
+        const ix = cx + ox, iy = cy + oy;
+        // Feature point jittered inside its cell
+        const px = ix + this.hash(ix, iy, 0) / 255;
+        const py = iy + this.hash(ix, iy, 101) / 255;
+        const dx = px - fx, dy = py - fy;
+        const d2 = dx * dx + dy * dy;
+        if (d2 < best) best = d2;
+      }
+    }
+
+    return clamp01(Math.sqrt(best));
+  }
+}
+
+/** Construct the noise backend named by `kind` (defaults to value noise). */
+export function createNoise(kind: NoiseKind | undefined, seed: number): NoiseSource2D {
+  switch (kind) {
+    case "perlin": return new GradientNoise2D(seed);
+    case "simplex": return new SimplexNoise2D(seed);
+    case "cellular": return new CellularNoise2D(seed);
+    case "value":
+    default: return new ValueNoise2D(seed);
+  }
+}
+
+/**
+ * 3D counterpart of NoiseSource2D, for sampling on the surface of a sphere.
+ * `sample` must be deterministic for a given seed and return values in [0,1].
+ */
+export interface NoiseSource3D {
+  sample(x: number, y: number, z: number, frequency?: number): number;
+}
+
+/** 3D value noise: trilinear blend of hashed lattice values. */
+export class ValueNoise3D implements NoiseSource3D {
+  private perm: Uint16Array;
+  constructor(seed: number) {
+    this.perm = buildPermutation(seed);
+  }
+
+  private val(ix: number, iy: number, iz: number) {
+    const p = this.perm;
+    return p[(p[(p[ix & 255] + iy) & 255] + iz) & 255] / 255;
+  }
+
+  /** Returns in [0,1]. */
+  sample(x: number, y: number, z: number, frequency = 1): number {
+    const fx = x * frequency, fy = y * frequency, fz = z * frequency;
+    const x0 = Math.floor(fx), y0 = Math.floor(fy), z0 = Math.floor(fz);
+    const u = fade(fx - x0), v = fade(fy - y0), w = fade(fz - z0);
+
+    const a = lerp(lerp(this.val(x0, y0, z0), this.val(x0 + 1, y0, z0), u),
+      lerp(this.val(x0, y0 + 1, z0), this.val(x0 + 1, y0 + 1, z0), u), v);
+    const b = lerp(lerp(this.val(x0, y0, z0 + 1), this.val(x0 + 1, y0, z0 + 1), u),
+      lerp(this.val(x0, y0 + 1, z0 + 1), this.val(x0 + 1, y0 + 1, z0 + 1), u), v);
+    return lerp(a, b, w);
+  }
+}
+
+// The 12 cube-edge gradients of improved Perlin noise
+const GRAD3 = [
+  [1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
+  [1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
+  [0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1],
+];
+
+/** 3D Perlin gradient noise (improved Perlin gradients). */
+export class GradientNoise3D implements NoiseSource3D {
+  private perm: Uint16Array;
+  constructor(seed: number) {
+    this.perm = buildPermutation(seed);
+  }
+
+  private grad(ix: number, iy: number, iz: number, dx: number, dy: number, dz: number) {
+    const p = this.perm;
+    const g = GRAD3[p[(p[(p[ix & 255] + iy) & 255] + iz) & 255] % 12];
+    return g[0] * dx + g[1] * dy + g[2] * dz;
+  }
+
+  /** Returns in [0,1] (0.5 is the zero crossing). */
+  sample(x: number, y: number, z: number, frequency = 1): number {
+    const fx = x * frequency, fy = y * frequency, fz = z * frequency;
+    const x0 = Math.floor(fx), y0 = Math.floor(fy), z0 = Math.floor(fz);
+    const tx = fx - x0, ty = fy - y0, tz = fz - z0;
+    const u = fade(tx), v = fade(ty), w = fade(tz);
+
+    const a = lerp(
+      lerp(this.grad(x0, y0, z0, tx, ty, tz), this.grad(x0 + 1, y0, z0, tx - 1, ty, tz), u),
+      lerp(this.grad(x0, y0 + 1, z0, tx, ty - 1, tz), this.grad(x0 + 1, y0 + 1, z0, tx - 1, ty - 1, tz), u), v);
+    const b = lerp(
+      lerp(this.grad(x0, y0, z0 + 1, tx, ty, tz - 1), this.grad(x0 + 1, y0, z0 + 1, tx - 1, ty, tz - 1), u),
+      lerp(this.grad(x0, y0 + 1, z0 + 1, tx, ty - 1, tz - 1), this.grad(x0 + 1, y0 + 1, z0 + 1, tx - 1, ty - 1, tz - 1), u), v);
+    return clamp01(0.5 + 0.5 * lerp(a, b, w));
+  }
+}
+
+const SKEW_3D = 1 / 3;
+const UNSKEW_3D = 1 / 6;
+
+/**
+ * 3D simplex noise (Gustavson's formulation): radial kernels on the four
+ * corners of the enclosing simplex, the 3D analogue of SimplexNoise2D.
+ */
+export class SimplexNoise3D implements NoiseSource3D {
+  private perm: Uint16Array;
+  constructor(seed: number) {
+    this.perm = buildPermutation(seed);
+  }
+
+  private contrib(ix: number, iy: number, iz: number, dx: number, dy: number, dz: number) {
+    const a = 0.6 - dx * dx - dy * dy - dz * dz;
+    if (a <= 0) return 0;
+    const p = this.perm;
+    const g = GRAD3[p[(p[(p[ix & 255] + iy) & 255] + iz) & 255] % 12];
+    const a2 = a * a;
+    return a2 * a2 * (g[0] * dx + g[1] * dy + g[2] * dz);
+  }
+
+  /** Returns in [0,1] (0.5 is the zero crossing). */
+  sample(x: number, y: number, z: number, frequency = 1): number {
+    const fx = x * frequency, fy = y * frequency, fz = z * frequency;
+    const s = (fx + fy + fz) * SKEW_3D;
+    const i = Math.floor(fx + s), j = Math.floor(fy + s), k = Math.floor(fz + s);
+    const t = (i + j + k) * UNSKEW_3D;
+    const x0 = fx - (i - t), y0 = fy - (j - t), z0 = fz - (k - t);
+
+    // Which of the six simplices of the skewed cube holds the point
+    let i1, j1, k1, i2, j2, k2;
+    if (x0 >= y0) {
+      if (y0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
+      else if (x0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 0; k2 = 1; }
+      else { i1 = 0; j1 = 0; k1 = 1; i2 = 1; j2 = 0; k2 = 1; }
+    } else {
+      if (y0 < z0) { i1 = 0; j1 = 0; k1 = 1; i2 = 0; j2 = 1; k2 = 1; }
+      else if (x0 < z0) { i1 = 0; j1 = 1; k1 = 0; i2 = 0; j2 = 1; k2 = 1; }
+      else { i1 = 0; j1 = 1; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
+    }
+
+    let n = this.contrib(i, j, k, x0, y0, z0);
+    n += this.contrib(i + i1, j + j1, k + k1, x0 - i1 + UNSKEW_3D, y0 - j1 + UNSKEW_3D, z0 - k1 + UNSKEW_3D);
+    n += this.contrib(i + i2, j + j2, k + k2, x0 - i2 + 2 * UNSKEW_3D, y0 - j2 + 2 * UNSKEW_3D, z0 - k2 + 2 * UNSKEW_3D);
+    n += this.contrib(i + 1, j + 1, k + 1, x0 - 1 + 3 * UNSKEW_3D, y0 - 1 + 3 * UNSKEW_3D, z0 - 1 + 3 * UNSKEW_3D);
+    return clamp01(0.5 + 0.5 * 32 * n);
+  }
+}
+
+/** 3D cellular / Worley noise (F1), one jittered feature point per lattice cell. */
+export class CellularNoise3D implements NoiseSource3D {
+  private perm: Uint16Array;
+  constructor(seed: number) {
+    this.perm = buildPermutation(seed);
+  }
+
+  private hash(ix: number, iy: number, iz: number, salt: number) {
+    const p = this.perm;
+    return p[(p[(p[(p[ix & 255] + iy) & 255] + iz) & 255] + salt) & 255];
+  }
+
+  /** Returns in [0,1]: 0 on a feature point. */
+  sample(x: number, y: number, z: number, frequency = 1): number {
+    const fx = x * frequency, fy = y * frequency, fz = z * frequency;
+    const cx = Math.floor(fx), cy = Math.floor(fy), cz = Math.floor(fz);
+
+    let best = Infinity;
+    for (let oz = -1; oz <= 1; oz++) {
+      for (let oy = -1; oy <= 1; oy++) {
+        for (let ox = -1; ox <= 1; ox++) {
+          const ix = cx + ox, iy = cy + oy, iz = cz + oz;
+          const dx = ix + this.hash(ix, iy, iz, 0) / 255 - fx;
+          const dy = iy + this.hash(ix, iy, iz, 101) / 255 - fy;
+          const dz = iz + this.hash(ix, iy, iz, 202) / 255 - fz;
+          const d2 = dx * dx + dy * dy + dz * dz;
+          if (d2 < best) best = d2;
+        }
+      }
+    }
+
+    return clamp01(Math.sqrt(best));
+  }
+}
+
+/** Construct the 3D noise backend named by `kind` (defaults to value noise). */
+export function createNoise3D(kind: NoiseKind | undefined, seed: number): NoiseSource3D {
+  switch (kind) {
+    case "perlin": return new GradientNoise3D(seed);
+    case "simplex": return new SimplexNoise3D(seed);
+    case "cellular": return new CellularNoise3D(seed);
+    case "value":
+    default: return new ValueNoise3D(seed);
+  }
+}
+
+/**
+ * Fractal sum of octaves using a 2D noise source.
+ * `params.fractal` picks how octaves combine; every mode returns in [0,1].
+ */
 export function fbm2D(
-  noise: ValueNoise2D,
+  noise: NoiseSource2D,
+  x: number,
+  y: number,
+  params: NoiseParams,
+  baseFreq: number
+): number {
+  return fractal((freq) => noise.sample(x, y, freq), params, baseFreq);
+}
+
+/** fbm2D for a 3D noise source (e.g. points on a sphere). */
+export function fbm3D(
+  noise: NoiseSource3D,
   x: number,
   y: number,
+  z: number,
   params: NoiseParams,
   baseFreq: number
 ): number {
+  return fractal((freq) => noise.sample(x, y, z, freq), params, baseFreq);
+}
+
+/** One noise sample at frequency `freq` (the fractals below only vary the frequency) */
+type Sampler = (freq: number) => number;
+
+function fractal(sample: Sampler, params: NoiseParams, baseFreq: number): number {
+  switch (params.fractal) {
+    case "ridged": return ridged(sample, params, baseFreq);
+    case "billow": return billow(sample, params, baseFreq);
+    case "hybrid": return hybrid(sample, params, baseFreq);
+    case "fbm":
+    default: return plainFbm(sample, params, baseFreq);
+  }
+}
+
+/** Plain fBM: weighted sum of octaves */
+function plainFbm(sample: Sampler, params: NoiseParams, baseFreq: number): number {
   const { octaves, lacunarity, gain } = params;
   let amp = 0.5;
   let freq = baseFreq;
@@ -140,7 +512,7 @@ export function fbm2D(
   let norm = 0;
 
   for (let o = 0; o < octaves; o++) {
-    sum += noise.sample(x, y, freq) * amp;
+    sum += sample(freq) * amp;
     norm += amp;
     freq *= lacunarity;
     amp *= gain;
@@ -149,14 +521,101 @@ export function fbm2D(
   return norm > 0 ? sum / norm : 0;
 }
 
+/**
+ * Billow: sums |n| of the signed noise, giving puffy hills with sharp creases
+ * in the valleys.
+ */
+function billow(sample: Sampler, params: NoiseParams, baseFreq: number): number {
+  const { octaves, lacunarity, gain } = params;
+  let amp = 0.5;
+  let freq = baseFreq;
+  let sum = 0;
+  let norm = 0;
+
+  for (let o = 0; o < octaves; o++) {
+    const n = sample(freq) * 2 - 1; // -1..1
+    sum += Math.abs(n) * amp;
+    norm += amp;
+    freq *= lacunarity;
+    amp *= gain;
+  }
+
+  return norm > 0 ? sum / norm : 0;
+}
+
+/**
+ * Ridged multifractal (Musgrave): folds the signed noise into ridges
+ * (offset - |n|), sharpens them with a power curve, and lets each octave's
+ * ridge strength gate the next so detail collects along ridgelines.
+ * - `ridgeOffset` shifts the ridge crest (≈1 gives the classic look)
+ * - `ridgeSharpness` is the exponent applied to each ridge (higher = thinner)
+ */
+function ridged(sample: Sampler, params: NoiseParams, baseFreq: number): number {
+  const { octaves, lacunarity, gain, ridgeOffset, ridgeSharpness } = params;
+  const peak = Math.pow(Math.max(1e-6, ridgeOffset), ridgeSharpness); // max per-octave signal
+  let amp = 0.5;
+  let freq = baseFreq;
+  let weight = 1;
+  let sum = 0;
+  let norm = 0;
+
+  for (let o = 0; o < octaves; o++) {
+    const n = sample(freq) * 2 - 1;
+    let signal = Math.max(0, ridgeOffset - Math.abs(n));
+    signal = Math.pow(signal, ridgeSharpness) * weight;
+    weight = clamp01((signal / peak) * 2);
+    sum += signal * amp;
+    norm += peak * amp;
+    freq *= lacunarity;
+    amp *= gain;
+  }
+
+  return norm > 0 ? clamp01(sum / norm) : 0;
+}
+
+/**
+ * Hybrid multifractal (Musgrave): smooth lowlands, rough highlands.
+ * Higher octaves are weighted by the running result, so detail only
+ * accumulates where the terrain is already high. `ridgeOffset` lifts the
+ * signal before weighting.
+ */
+function hybrid(sample: Sampler, params: NoiseParams, baseFreq: number): number {
+  const { octaves, lacunarity, gain, ridgeOffset } = params;
+  let amp = 0.5;
+  let freq = baseFreq;
+  let result = 0, weight = 1;
+  // Same recurrence with the noise pinned at its max, used to normalize to [0,1]
+  let maxResult = 0, maxWeight = 1;
+
+  for (let o = 0; o < octaves; o++) {
+    const signal = (sample(freq) * 2 - 1 + ridgeOffset) * amp;
+    const maxSignal = (1 + ridgeOffset) * amp;
+    if (o === 0) {
+      result = signal; weight = signal;
+      maxResult = maxSignal; maxWeight = maxSignal;
+    } else {
+      weight = Math.min(1, weight);
+      result += weight * signal;
+      weight *= signal;
+      maxWeight = Math.min(1, maxWeight);
+      maxResult += maxWeight * maxSignal;
+      maxWeight *= maxSignal;
+    }
+    freq *= lacunarity;
+    amp *= gain;
+  }
+
+  return maxResult > 0 ? clamp01(result / maxResult) : 0;
+}
+
 /**
  * Domain-warped fBM: compute two auxiliary noises to warp coordinates before sampling.
  * `warp` is the pixel-scale intensity (e.g., 10..80 for visible swirls at 512²).
  */
 export function warpedFbm2D(
-  nBase: ValueNoise2D,
-  nWarpX: ValueNoise2D,
-  nWarpY: ValueNoise2D,
+  nBase: NoiseSource2D,
+  nWarpX: NoiseSource2D,
+  nWarpY: NoiseSource2D,
   x: number,
   y: number,
   params: NoiseParams,
@@ -164,40 +623,65 @@ export function warpedFbm2D(
   warp: number,
   warpFreq = baseFreq * 0.5
 ) {
-  const wx = fbm2D(nWarpX, x, y, params, warpFreq);
-  const wy = fbm2D(nWarpY, x, y, params, warpFreq);
+  // Warp offsets always use plain fBM so they stay centered on 0.5
+  const wx = plainFbm((f) => nWarpX.sample(x, y, f), params, warpFreq);
+  const wy = plainFbm((f) => nWarpY.sample(x, y, f), params, warpFreq);
   // Center warp around 0 by subtracting 0.5
   const dx = (wx - 0.5) * warp;
   const dy = (wy - 0.5) * warp;
   return fbm2D(nBase, x + dx, y + dy, params, baseFreq);
 }
 
+/** warpedFbm2D on 3D noise: three warp fields displace the sample point. */
+export function warpedFbm3D(
+  nBase: NoiseSource3D,
+  nWarp: [NoiseSource3D, NoiseSource3D, NoiseSource3D],
+  x: number,
+  y: number,
+  z: number,
+  params: NoiseParams,
+  baseFreq: number,
+  warp: number,
+  warpFreq = baseFreq * 0.5
+) {
+  const [dx, dy, dz] = nWarp.map((n) => (plainFbm((f) => n.sample(x, y, z, f), params, warpFreq) - 0.5) * warp);
+  return fbm3D(nBase, x + dx, y + dy, z + dz, params, baseFreq);
+}
+
 /**
  * Fill a heightfield (Float32Array length size*size) using domain-warped fBM.
- * - `params.noise` controls octaves/lacunarity/gain/warp.
+ * - `params.noise` controls backend/fractal mode/octaves/lacunarity/gain/warp.
  * - `baseFreq` controls overall “zoom”. Try 1/128 for 512² maps.
- * - Normalizes to [0,1] with optional gentle island mask if you want it (off by default).
+ * - `params.wrap` makes the field periodic on X (cylinder) or X and Y (torus).
+ * - With params.planet.mode "sphere", samples 3D noise on a sphere instead and
+ *   writes it equirectangular (x = longitude, y = latitude, north up), so the
+ *   east/west edges meet and the poles don't stretch features.
+ * - Normalizes to [0,1]. Land/ocean masks are applied afterwards (see masks.ts).
  */
 export function generateHeightField(
   out: Float32Array,
   size: number,
   seed: number,
   params: SimParams,
-  baseFreq = 1 / 128,
-  opts?: { islandMask?: boolean }
+  baseFreq = 1 / 128
 ) {
-  const nBase = new ValueNoise2D(seed ^ 0x9e3779b9);
-  const nWarpX = new ValueNoise2D(seed ^ 0x517cc1b7);
-  const nWarpY = new ValueNoise2D(seed ^ 0x85ebca6b);
-
   const np = params.noise;
+  const nBase = createNoise(np.kind, seed ^ 0x9e3779b9);
+  const nWarpX = createNoise(np.kind, seed ^ 0x517cc1b7);
+  const nWarpY = createNoise(np.kind, seed ^ 0x85ebca6b);
+
   const warp = np.warp;
+  const wrap = params.wrap;
+  const sampleAt = params.planet.mode === "sphere"
+    ? sphereSampler(seed, params, size, baseFreq)
+    : (x: number, y: number) => warpedFbm2D(nBase, nWarpX, nWarpY, x, y, np, baseFreq, warp);
+  const tile = params.planet.mode !== "sphere" && wrap !== "none";
 
   // Generate raw values, track min/max for normalization
   let minV = Infinity, maxV = -Infinity;
   for (let y = 0; y < size; y++) {
     for (let x = 0; x < size; x++) {
-      const v = warpedFbm2D(nBase, nWarpX, nWarpY, x, y, np, baseFreq, warp);
+      const v = tile ? sampleTileable(sampleAt, x, y, size, wrap) : sampleAt(x, y);
       out[y * size + x] = v;
       if (v < minV) minV = v;
       if (v > maxV) maxV = v;
@@ -206,32 +690,61 @@ export function generateHeightField(
 
   const inv = maxV > minV ? 1 / (maxV - minV) : 1;
 
-  // Normalize to [0,1] and apply optional radial island mask
-  const useMask = !!opts?.islandMask;
-  const cx = (size - 1) * 0.5;
-  const cy = (size - 1) * 0.5;
-  const maxR = Math.hypot(cx, cy);
+  // Normalize to [0,1]
+  for (let i = 0; i < size * size; i++) out[i] = (out[i] - minV) * inv;
+}
 
-  for (let y = 0; y < size; y++) {
-    for (let x = 0; x < size; x++) {
-      const i = y * size + x;
-      let h = (out[i] - minV) * inv; // 0..1
-
-      if (useMask) {
-        const dx = (x - cx) / maxR;
-        const dy = (y - cy) / maxR;
-        const r = Math.sqrt(dx * dx + dy * dy); // 0 center → ~1 corner
-        // Gentle island: drop near edges with a smoothstep
-        const mask = 1 - smoothstep(0.7, 1.0, r);
-        h *= mask;
-      }
+/**
+ * Sampler for cell (x, y) of an equirectangular grid: 3D noise at that
+ * latitude/longitude on a sphere whose equator is `size` noise units long,
+ * so features keep the flat map's scale at the equator.
+ */
+function sphereSampler(seed: number, params: SimParams, size: number, baseFreq: number) {
+  const np = params.noise;
+  const nBase = createNoise3D(np.kind, seed ^ 0x9e3779b9);
+  const nWarp: [NoiseSource3D, NoiseSource3D, NoiseSource3D] = [
+    createNoise3D(np.kind, seed ^ 0x517cc1b7),
+    createNoise3D(np.kind, seed ^ 0x85ebca6b),
+    createNoise3D(np.kind, seed ^ 0xc2b2ae35),
+  ];
+  const radius = size / (2 * Math.PI);
+  return (x: number, y: number) => {
+    const lon = (2 * Math.PI * (x + 0.5)) / size - Math.PI;
+    const lat = Math.PI / 2 - (Math.PI * (y + 0.5)) / size;
+    const c = Math.cos(lat) * radius;
+    return warpedFbm3D(nBase, nWarp, c * Math.cos(lon), c * Math.sin(lon), radius * Math.sin(lat), np, baseFreq, np.warp);
+  };
+}
 
-      out[i] = h;
-    }
-  }
+/**
+ * Height of a grid row in column widths. The sphere's equirectangular grid
+ * spans 360° across but only 180° down, so its rows are half as tall as its
+ * columns are wide; flat maps have square cells. Distances and slopes scale
+ * their y component by this.
+ */
+export function rowSpacing(params: SimParams) {
+  return params.planet.mode === "sphere" ? 0.5 : 1;
 }
 
-const smoothstep = (e0: number, e1: number, x: number) => {
-  const t = Math.min(1, Math.max(0, (x - e0) / (e1 - e0)));
-  return t * t * (3 - 2 * t);
-};
+/**
+ * Make any 2D sampler periodic over `size` by cross-fading it with copies
+ * shifted one period back. At x=0 and x=size the blend picks the same sample,
+ * so the edges meet without a seam; this works for every backend and keeps
+ * domain warp intact. Costs 2 (X) or 4 (XY) samples per cell.
+ */
+export function sampleTileable(
+  f: (x: number, y: number) => number,
+  x: number,
+  y: number,
+  size: number,
+  wrap: WrapMode
+) {
+  const u = x / size;
+  if (wrap === "x") {
+    return lerp(f(x, y), f(x - size, y), u);
+  }
+  const v = y / size;
+  const a = lerp(f(x, y), f(x - size, y), u);
+  const b = lerp(f(x, y - size), f(x - size, y - size), u);
+  return lerp(a, b, v);
+}
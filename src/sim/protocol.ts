@@ -1,9 +1,17 @@
-import type { SimParams, Brush, Fields } from "../model/types";
+import type { SimParams, Brush, Dab, Fields, BiomeRules, Stamp } from "../model/types";
+import type { HistoryItem } from "./history";
 
 export type MsgInit = { t: 'init'; seed: number; params: SimParams };
 export type MsgRecompute = { t: 'recompute'; params: SimParams };
-export type MsgBrush = { t: 'brush'; x: number; y: number; brush: Brush };
-export type MsgResult = { t: 'result'; fields: Fields };
+export type MsgBrush = { t: 'brush'; dabs: Dab[]; brush: Brush }; // one frame's dabs, applied in order
+export type MsgMonth = { t: 'month'; month: number }; // month (0..11) shown in fields.monthTemp/monthPrecip
+export type MsgResult = { t: 'result'; fields: Fields; cause: WorkerIn['t'] }; // cause: the message that produced it
 export type MsgProgress = { t: 'progress'; phase: string; pct: number };
-export type WorkerIn = MsgInit | MsgRecompute | MsgBrush;
-export type WorkerOut = MsgResult | MsgProgress;
+export type MsgBiomes = { t: 'biomes'; rules: BiomeRules }; // reclassify with new rules
+export type MsgStrokeEnd = { t: 'strokeEnd' }; // brush messages since the last one form one undo step
+export type MsgUndo = { t: 'undo' };
+export type MsgRedo = { t: 'redo' };
+export type MsgStamps = { t: 'stamps'; stamps: Stamp[] }; // replaces the stamp brush's image library
+export type MsgHistory = { t: 'history'; undo: HistoryItem[]; redo: HistoryItem[] }; // oldest first
+export type WorkerIn = MsgInit | MsgRecompute | MsgBrush | MsgMonth | MsgBiomes | MsgStrokeEnd | MsgUndo | MsgRedo | MsgStamps;
+export type WorkerOut = MsgResult | MsgProgress | MsgHistory;
@@ -1,111 +1,596 @@
-import type { Fields, SimParams } from "../model/types";
+import type { BiomeRules, Fields, SimParams, WrapMode } from "../model/types";
+import type { DirtyRect } from "./brush";
+import { DEFAULT_BIOME_RULES, biomeOrder } from "../model/biomes";
+import { rowSpacing } from "./noise";
+
+/** Water deeper than this in a filled basin counts as lake. */
+export const LAKE_MIN_DEPTH = 1e-4;
+
+/** D8 neighbour offsets; direction k and 7-k are opposites. */
+export const D8_X = [-1, 0, 1, -1, 1, -1, 0, 1];
+export const D8_Y = [-1, -1, -1, 0, 0, 1, 1, 1];
+/** flowDir value for cells that don't drain anywhere (ocean, map-edge outlets). */
+export const NO_FLOW = 255;
 
 /**
- * Compute river mask from a heightfield using D8 flow routing + accumulation.
- * - Routes each cell to its steepest *lower* neighbor (or nowhere if local sink/sea).
- * - Processes cells from highest → lowest to maintain a DAG-ish order.
- * - Thresholds accumulated flow to binary river mask.
- *
- * NOTE: Rivers are inherently *global* (upstream changes propagate downstream).
- * For correctness, this recomputes the whole grid. It’s O(n log n) from the sort.
- * At 512² it’s usually fine. Optimize later (tiles/queues) if needed.
+ * Hydrology buffers kept between calls so updateRivers() can re-route only what
+ * a brush dab touched. computeRivers() (re)fills them from scratch.
  */
-export function computeRivers(fields: Fields, size: number, params: SimParams) {
-  const { height, rivers } = fields;
-  const sea = params.climate.seaLevel;
+export type RiverState = {
+  size: number;
+  sea: number;              // sea level / wrap the buffers were built with
+  wrap: WrapMode;
+  incremental: boolean;     // false after a lowest-cell flood (no ocean or open edge)
+  filled: Float32Array;     // depression-filled surface
+  recv: Int32Array;         // receiver cell, -1 for ocean and outlets
+  accum: Float32Array;      // discharge: rain - loss summed over upstream cells
+  catchment: Uint32Array;   // upstream land cells incl. self (normalizes flow)
+  flags: Uint8Array;        // scratch set membership, all zero between calls
+  scratch: Int32Array;      // scratch: flat BFS distance / in-degree
+};
+
+export function createRiverState(size: number): RiverState {
   const n = size * size;
+  return {
+    size,
+    sea: NaN,
+    wrap: "none",
+    incremental: false,
+    filled: new Float32Array(n),
+    recv: new Int32Array(n).fill(-1),
+    accum: new Float32Array(n),
+    catchment: new Uint32Array(n),
+    flags: new Uint8Array(n),
+    scratch: new Int32Array(n),
+  };
+}
+
+/**
+ * Compute river mask and lakes from a heightfield using priority-flood
+ * depression filling + D8 flow routing + accumulation.
+ * - Priority-flood from the ocean (and non-wrapped map edges) fills every
+ *   inland pit up to its spill level; the water depth is stored in `fields.lakes`.
+ * - Cells route to their steepest *lower* neighbour on the filled surface.
+ *   Flat cells (lake surfaces) route toward the nearest outlet of their flat
+ *   by BFS distance, so rivers continue downstream of lakes.
+ * - Each land cell adds rain weighted by `fields.moisture` (params.hydrology.rainfall)
+ *   and loses a per-biome amount (the biome's waterLoss in `rules` ×
+ *   params.hydrology.loss), so rivers thin out and can dry up crossing arid
+ *   basins. Biomes are read from `fields.biomes`, so classify them with the same
+ *   rules before calling this; lake cells use the first lake biome's loss regardless.
+ * - Each cell sums its donors in fixed D8 order, so the result depends only on
+ *   the inputs, never on processing order (updateRivers relies on this).
+ * - Keeps normalized accumulation in `fields.flow` and the D8 receiver
+ *   direction in `fields.flowDir` (index into D8_X/D8_Y, NO_FLOW if none).
+ * - Thresholds accumulated flow to binary river mask (lakes are excluded).
+ * - With params.wrap, neighbours continue across the wrapped edges.
+ *
+ * Rivers are inherently *global*; this recomputes the whole grid, O(n log n)
+ * from the heap. Brushes should use updateRivers() with a persistent `state`.
+ */
+export function computeRivers(
+  fields: Fields,
+  size: number,
+  params: SimParams,
+  state: RiverState = createRiverState(size),
+  rules: BiomeRules = DEFAULT_BIOME_RULES
+) {
+  if (state.size !== size) Object.assign(state, createRiverState(size));
+  const c = context(fields, size, params, state, false, rules);
+  const { height, lakes } = fields;
+  const { filled, flags } = state;
+  const { n, sea } = c;
+
+  // ---- Priority-flood: filled surface ----
+  const seen = new Uint8Array(n);
+  const heap = new MinHeap(n);
+
+  for (let i = 0; i < n; i++) {
+    if (height[i] < sea || onEdge(c, i)) {
+      filled[i] = height[i];
+      seen[i] = 1;
+      heap.push(i, filled[i]);
+    }
+  }
+  // Fully wrapped land-only world: drain everything to the lowest cell
+  state.incremental = heap.size > 0;
+  if (heap.size === 0) {
+    let lo = 0;
+    for (let i = 1; i < n; i++) if (height[i] < height[lo]) lo = i;
+    filled[lo] = height[lo];
+    seen[lo] = 1;
+    heap.push(lo, filled[lo]);
+  }
+
+  while (heap.size > 0) {
+    const i = heap.pop();
+    for (let k = 0; k < 8; k++) {
+      const j = neighbour(c, i, k);
+      if (j < 0 || seen[j]) continue;
+      seen[j] = 1;
+      filled[j] = Math.max(height[j], filled[i]); // pits / flats fill up to the spill level
+      heap.push(j, filled[j]);
+    }
+  }
+
+  // ---- Receivers ----
+  for (let i = 0; i < n; i++) lakes[i] = height[i] >= sea ? filled[i] - height[i] : 0;
+  for (let i = 0; i < n; i++) {
+    if (!routeCell(c, i) && !(flags[i] & FLAT)) routeFlat(c, i);
+  }
+  flags.fill(0);
+
+  // ---- Accumulate + normalize ----
+  accumulate(c, null);
+  finishFlow(c);
+  state.sea = sea;
+  state.wrap = params.wrap;
+}
+
+/**
+ * Brush-time version of computeRivers(): after heights (and moisture/biomes)
+ * changed inside `rect`, update `fields` and `state` to exactly what a full
+ * computeRivers() would produce, bit for bit, touching only:
+ * - the rect plus the cells draining into it below its new top height (their
+ *   fill level may rise) and any cell whose level drops, found by re-running the
+ *   priority-flood outward from that region;
+ * - the receivers of changed cells, their neighbours and any flat they touch;
+ * - accumulation along every affected path down to the sea, and from every cell
+ *   of `rainRect` (where moisture/biomes moved without the heights, e.g. downwind
+ *   of the edit; see moistureRect).
+ * Falls back to a full recompute when `state` doesn't match the grid.
+ */
+export function updateRivers(
+  fields: Fields,
+  size: number,
+  params: SimParams,
+  state: RiverState,
+  rect: DirtyRect,
+  rules: BiomeRules = DEFAULT_BIOME_RULES,
+  rainRect?: DirtyRect
+) {
+  if (
+    !state.incremental ||
+    state.size !== size ||
+    state.sea !== params.climate.seaLevel ||
+    state.wrap !== params.wrap
+  ) {
+    computeRivers(fields, size, params, state, rules);
+    return;
+  }
+
+  const c = context(fields, size, params, state, true, rules);
+  const { height, lakes } = fields;
+  const { filled, recv, flags } = state;
+  const { sea } = c;
 
-  // Flow accumulation buffer (float)
-  // Start with 1 "unit" of rain in every land cell; 0 for ocean.
-  const accum = new Float32Array(n);
-
-  // Precompute processing order: indices sorted by height DESC
-  const indices = new Uint32Array(n);
-  for (let i = 0; i < n; i++) indices[i] = i;
-  indices.sort((a, b) => height[b] - height[a]);
-
-  // Helper: get steepest downhill neighbor index (or -1 if none)
-  const downhill = (i: number): number => {
-    const y = Math.floor(i / size), x = i - y * size;
-    const z = height[i];
-    let bestIdx = -1;
-    let bestDrop = 0;
-
-    // 8 neighbors
-    for (let dy = -1; dy <= 1; dy++) {
-      for (let dx = -1; dx <= 1; dx++) {
-        if (dx === 0 && dy === 0) continue;
-        const nx = x + dx, ny = y + dy;
-        if (nx < 0 || ny < 0 || nx >= size || ny >= size) continue;
-        const j = ny * size + nx;
-        const zj = height[j];
-        const drop = z - zj;
-        if (drop > bestDrop) {
-          bestDrop = drop;
-          bestIdx = j;
-        }
+  // 1) Region whose fill level may rise. Cells draining into the rect from at or
+  //    above its new top keep a path over it no higher than before.
+  const region: number[] = [];
+  let top = -Infinity;
+  for (let y = rect.y0; y <= rect.y1; y++) {
+    for (let x = rect.x0; x <= rect.x1; x++) {
+      const i = y * size + x;
+      mark(c, i, RESET);
+      region.push(i);
+      if (height[i] > top) top = height[i];
+    }
+  }
+  const rectCells = region.length;
+  for (let r = 0; r < region.length; r++) {
+    const i = region[r];
+    for (let k = 0; k < 8; k++) {
+      const j = neighbour(c, i, k);
+      if (j < 0 || flags[j] & RESET || recv[j] !== i || filled[j] >= top) continue;
+      mark(c, j, RESET);
+      region.push(j);
+    }
+  }
+
+  // 2) Re-flood the region from its boundary (old levels are exact there, or upper
+  //    bounds that the flood lowers where the edit opened a cheaper spill path)
+  const saved: number[] = [];
+  const old: number[] = [];
+  const heap = new MinHeap(Math.max(64, region.length * 2));
+  for (const i of region) {
+    saved.push(i);
+    old.push(filled[i]);
+    mark(c, i, SAVED);
+    if (height[i] < sea || onEdge(c, i)) {
+      filled[i] = height[i];
+      heap.push(i, filled[i]);
+    } else {
+      filled[i] = Infinity;
+    }
+  }
+  for (const i of region) {
+    for (let k = 0; k < 8; k++) {
+      const j = neighbour(c, i, k);
+      if (j >= 0 && !(flags[j] & RESET)) heap.push(j, filled[j]);
+    }
+  }
+  while (heap.size > 0) {
+    const i = heap.pop();
+    if (flags[i] & DONE) continue; // stale entry
+    mark(c, i, DONE);
+    for (let k = 0; k < 8; k++) {
+      const j = neighbour(c, i, k);
+      if (j < 0 || flags[j] & DONE) continue;
+      if (height[j] < sea || onEdge(c, j)) continue; // seeds stay at their own height
+      const v = Math.max(height[j], filled[i]);
+      if (v >= filled[j]) continue;
+      if (!(flags[j] & SAVED)) {
+        saved.push(j);
+        old.push(filled[j]);
+        mark(c, j, SAVED);
       }
+      filled[j] = v;
+      heap.push(j, v);
+    }
+  }
+
+  // 3) Changed cells: the rect (heights moved) + every level that moved
+  const changed = region.slice(0, rectCells);
+  for (let s = rectCells; s < saved.length; s++) {
+    if (filled[saved[s]] !== old[s]) changed.push(saved[s]);
+  }
+  for (const i of changed) lakes[i] = height[i] >= sea ? filled[i] - height[i] : 0;
+
+  // 4) Re-route changed cells and their neighbours. A cell on a flat re-routes
+  //    the whole flat: it may have become (or stopped being) one of its outlets,
+  //    which moves the BFS directions of members far from the edit.
+  const route: number[] = [];
+  const queueRoute = (i: number) => {
+    if (flags[i] & ROUTE) return;
+    mark(c, i, ROUTE);
+    route.push(i);
+  };
+  for (const i of changed) {
+    queueRoute(i);
+    for (let k = 0; k < 8; k++) {
+      const j = neighbour(c, i, k);
+      if (j >= 0) queueRoute(j);
+    }
+  }
+  for (const i of route) {
+    if (flags[i] & FLAT) continue;
+    if (onFlat(c, i) || !routeCell(c, i)) routeFlat(c, i);
+  }
+
+  // 5) Accumulate everything downstream of a change
+  const dirty: number[] = [];
+  const flagDownstream = (i: number) => {
+    for (let j = i; j >= 0 && !(flags[j] & ACCUM); j = recv[j]) {
+      mark(c, j, ACCUM);
+      dirty.push(j);
     }
-    // require strictly lower neighbor
-    return bestDrop > 0 ? bestIdx : -1;
   };
+  for (const i of changed) flagDownstream(i);
+  const moved = c.recvChanges ?? [];
+  for (let m = 0; m < moved.length; m++) if (moved[m] >= 0) flagDownstream(moved[m]);
+  if (rainRect) {
+    for (let y = rainRect.y0; y <= rainRect.y1; y++) {
+      for (let x = rainRect.x0; x <= rainRect.x1; x++) flagDownstream(y * size + x);
+    }
+  }
+  accumulate(c, dirty);
+  finishFlow(c);
 
-  // Accumulate: each land cell contributes 1 + incoming, pushes downstream
-  for (let k = 0; k < n; k++) {
-    const i = indices[k];
-    const z = height[i];
-    if (z <= sea) {
-      accum[i] = 0; // ocean doesn't accumulate/rout
-      continue;
+  for (const i of c.touched ?? []) flags[i] = 0;
+}
+
+/* ---------- shared by the full and incremental passes ---------- */
+
+// RiverState.flags bits
+const RESET = 1;   // incremental: level re-derived by the flood
+const SAVED = 2;   // incremental: old level recorded
+const DONE = 4;    // incremental: settled by the flood
+const ROUTE = 8;   // incremental: queued for re-routing
+const FLAT = 16;   // flat component already routed
+const ACCUM = 32;  // accumulation must be recomputed
+
+type Ctx = {
+  f: Fields;
+  st: RiverState;
+  size: number;
+  n: number;
+  sea: number;
+  wrapX: boolean;
+  wrapY: boolean;
+  stepWeight: number[];    // per D8 direction: grid step over true step length (1 on square cells)
+  rainfall: number;
+  loss: number;
+  biomeLoss: Float32Array; // waterLoss per biome id (0 for UNCLASSIFIED)
+  lakeLoss: number;
+  threshold: number;
+  touched: number[] | null;     // cells with flags set (incremental only; full clears all)
+  recvChanges: number[] | null; // incremental: (cell, old receiver, new receiver) triples
+};
+
+function context(
+  fields: Fields, size: number, params: SimParams, state: RiverState, incremental: boolean, rules: BiomeRules
+): Ctx {
+  const biomeLoss = new Float32Array(256);
+  rules.biomes.forEach((b, id) => { biomeLoss[id] = b.waterLoss ?? 0; });
+  const lake = biomeOrder(rules).find((id) => rules.biomes[id].regions.some((g) => g.surface === "lake"));
+  return {
+    f: fields,
+    st: state,
+    size,
+    n: size * size,
+    sea: params.climate.seaLevel,
+    wrapX: params.wrap !== "none",
+    wrapY: params.wrap === "xy",
+    stepWeight: D8_X.map((dx, k) => Math.hypot(dx, D8_Y[k]) / Math.hypot(dx, D8_Y[k] * rowSpacing(params))),
+    rainfall: params.hydrology.rainfall,
+    loss: params.hydrology.loss,
+    biomeLoss,
+    lakeLoss: lake === undefined ? 0 : biomeLoss[lake],
+    threshold: params.riverThreshold,
+    touched: incremental ? [] : null,
+    recvChanges: incremental ? [] : null,
+  };
+}
+
+function mark(c: Ctx, i: number, bit: number) {
+  const flags = c.st.flags;
+  if (flags[i] === 0) c.touched?.push(i);
+  flags[i] |= bit;
+}
+
+// Neighbour index in direction k, or -1 off a non-wrapping edge
+function neighbour(c: Ctx, i: number, k: number): number {
+  const size = c.size;
+  const y = Math.floor(i / size), x = i - y * size;
+  let nx = x + D8_X[k], ny = y + D8_Y[k];
+  if (c.wrapX) nx = (nx + size) % size;
+  if (c.wrapY) ny = (ny + size) % size;
+  if (nx < 0 || ny < 0 || nx >= size || ny >= size) return -1;
+  return ny * size + nx;
+}
+
+// On a non-wrapping map edge (a flood seed; water can leave the map here)
+function onEdge(c: Ctx, i: number): boolean {
+  const size = c.size;
+  const y = Math.floor(i / size), x = i - y * size;
+  return (!c.wrapX && (x === 0 || x === size - 1)) || (!c.wrapY && (y === 0 || y === size - 1));
+}
+
+// Direction of the steepest strictly lower neighbour on the filled surface, or -1.
+// Drops are compared per grid step, rescaled where rows are shorter than columns.
+function steepest(c: Ctx, i: number): number {
+  const filled = c.st.filled;
+  let best = -1, bestDrop = 0;
+  for (let k = 0; k < 8; k++) {
+    const j = neighbour(c, i, k);
+    if (j < 0) continue;
+    const drop = (filled[i] - filled[j]) * c.stepWeight[k];
+    if (drop > bestDrop) { bestDrop = drop; best = k; }
+  }
+  return best;
+}
+
+function setRecv(c: Ctx, i: number, j: number, k: number) {
+  const recv = c.st.recv;
+  if (recv[i] !== j) c.recvChanges?.push(i, recv[i], j);
+  recv[i] = j;
+  c.f.flowDir[i] = k < 0 ? NO_FLOW : k;
+}
+
+// Route ocean, sloped and map-edge cells; returns false for flat cells (see routeFlat)
+function routeCell(c: Ctx, i: number): boolean {
+  if (c.f.height[i] < c.sea) {
+    setRecv(c, i, -1, -1);
+    return true;
+  }
+  const k = steepest(c, i);
+  if (k >= 0) {
+    setRecv(c, i, neighbour(c, i, k), k);
+    return true;
+  }
+  if (onEdge(c, i)) {
+    setRecv(c, i, -1, -1); // drains off the map
+    return true;
+  }
+  return false;
+}
+
+// Land cell with a land neighbour at the same filled level (part of a flat)
+function onFlat(c: Ctx, i: number): boolean {
+  const { height } = c.f;
+  const filled = c.st.filled;
+  if (height[i] < c.sea) return false;
+  for (let k = 0; k < 8; k++) {
+    const j = neighbour(c, i, k);
+    if (j >= 0 && height[j] >= c.sea && filled[j] === filled[i]) return true;
+  }
+  return false;
+}
+
+/**
+ * Route the connected land cells sharing `start`'s filled level: members that
+ * route on their own are outlets, the rest drain one BFS step closer to the
+ * nearest outlet (first D8 direction on ties). Depends only on `filled`.
+ */
+function routeFlat(c: Ctx, start: number) {
+  const { height } = c.f;
+  const { filled, flags, scratch: dist } = c.st;
+  const level = filled[start];
+  const member = (j: number) => j >= 0 && height[j] >= c.sea && filled[j] === level;
+
+  const comp = [start];
+  mark(c, start, FLAT);
+  for (let h = 0; h < comp.length; h++) {
+    for (let k = 0; k < 8; k++) {
+      const j = neighbour(c, comp[h], k);
+      if (!member(j) || flags[j] & FLAT) continue;
+      mark(c, j, FLAT);
+      comp.push(j);
     }
-    const base = 1; // unit rainfall; later you could modulate by moisture
-    const total = accum[i] + base;
-    const j = downhill(i);
-    if (j >= 0) {
-      accum[j] += total;
+  }
+
+  const queue: number[] = [];
+  for (const i of comp) {
+    if (routeCell(c, i)) {
+      dist[i] = 0;
+      queue.push(i);
+    } else {
+      dist[i] = -1;
+    }
+  }
+  for (let h = 0; h < queue.length; h++) {
+    const i = queue[h];
+    for (let k = 0; k < 8; k++) {
+      const j = neighbour(c, i, k);
+      if (!member(j) || dist[j] >= 0) continue;
+      dist[j] = dist[i] + 1;
+      queue.push(j);
     }
-    accum[i] = total;
   }
 
-  // Normalize accumulation so thresholds are scale-invariant
+  for (const i of comp) {
+    if (dist[i] === 0) continue;
+    let to = -1, dir = -1;
+    for (let k = 0; k < 8 && dist[i] > 0; k++) {
+      const j = neighbour(c, i, k);
+      if (member(j) && dist[j] === dist[i] - 1) { to = j; dir = k; break; }
+    }
+    setRecv(c, i, to, dir); // -1 only for a flat with no outlet (lowest-cell flood)
+  }
+}
+
+// Discharge and catchment of one cell from its donors, summed in D8 order
+function accumulateCell(c: Ctx, i: number) {
+  const { height, moisture, biomes, lakes } = c.f;
+  const { recv, accum, catchment } = c.st;
+  if (height[i] < c.sea) {
+    accum[i] = 0; // ocean doesn't accumulate/route
+    catchment[i] = 0;
+    return;
+  }
+  let inflow = 0, cells = 1;
+  for (let k = 0; k < 8; k++) {
+    const j = neighbour(c, i, k);
+    if (j >= 0 && recv[j] === i) {
+      inflow += accum[j];
+      cells += catchment[j];
+    }
+  }
+  // Rain per land cell is 1 at full weight blended toward moisture
+  const rain = 1 - c.rainfall + c.rainfall * moisture[i];
+  const loss = lakes[i] > LAKE_MIN_DEPTH ? c.lakeLoss : c.biomeLoss[biomes[i]];
+  accum[i] = Math.max(0, inflow + rain - c.loss * loss);
+  catchment[i] = cells;
+}
+
+// Accumulate `cells` (flagged ACCUM; null = whole grid) upstream-first (Kahn order)
+function accumulate(c: Ctx, cells: number[] | null) {
+  const { recv, flags, scratch: pending } = c.st;
+  const all = cells === null;
+  const count = all ? c.n : cells.length;
+  const at = (q: number) => (all ? q : cells[q]);
+  const inSet = (j: number) => j >= 0 && (all || (flags[j] & ACCUM) !== 0);
+
+  for (let q = 0; q < count; q++) pending[at(q)] = 0;
+  for (let q = 0; q < count; q++) {
+    const r = recv[at(q)];
+    if (inSet(r)) pending[r]++;
+  }
+  const queue = new Int32Array(count);
+  let head = 0, tail = 0;
+  for (let q = 0; q < count; q++) if (pending[at(q)] === 0) queue[tail++] = at(q);
+  while (head < tail) {
+    const i = queue[head++];
+    accumulateCell(c, i);
+    const r = recv[i];
+    if (inSet(r) && --pending[r] === 0) queue[tail++] = r;
+  }
+}
+
+// Normalize discharge by the largest catchment (not the largest discharge) so
+// thresholds are scale-invariant and wetter/drier climates grow/shrink the network
+function finishFlow(c: Ctx) {
+  const { height, lakes, flow, rivers } = c.f;
+  const { accum, catchment } = c.st;
   let maxA = 0;
-  for (let i = 0; i < n; i++) if (accum[i] > maxA) maxA = accum[i];
+  for (let i = 0; i < c.n; i++) if (catchment[i] > maxA) maxA = catchment[i];
   const invMax = maxA > 0 ? 1 / maxA : 1;
 
-  const thr = params.riverThreshold; // expect ~0.01..0.05
-  for (let i = 0; i < n; i++) {
-    const z = height[i];
-    if (z <= sea) {
+  const thr = c.threshold; // expect ~0.01..0.05
+  for (let i = 0; i < c.n; i++) {
+    const a = accum[i] * invMax;
+    flow[i] = a;
+    if (height[i] < c.sea || lakes[i] > LAKE_MIN_DEPTH) {
       rivers[i] = 0;
       continue;
     }
-    const a = accum[i] * invMax;
     rivers[i] = a >= thr ? 1 : 0;
   }
 }
 
 /**
- * Optional polish: thicken/anti-alias the river mask with a cheap dilation.
- * Run after computeRivers() if you want slightly wider lines visually.
+ * Binary min-heap of cell indices keyed by height.
+ * Ties pop in insertion order so the flood is fully deterministic.
  */
-export function dilateRivers(rivers: Uint8Array, size: number, passes = 1) {
-  const out = new Uint8Array(rivers);
-  for (let p = 0; p < passes; p++) {
-    for (let y = 0; y < size; y++) {
-      for (let x = 0; x < size; x++) {
-        const i = y * size + x;
-        if (rivers[i]) { out[i] = 1; continue; }
-        // 4-neighborhood (use 8-neighborhood for thicker)
-        if (
-          (x > 0 && rivers[i - 1]) ||
-          (x + 1 < size && rivers[i + 1]) ||
-          (y > 0 && rivers[i - size]) ||
-          (y + 1 < size && rivers[i + size])
-        ) {
-          out[i] = 1;
-        }
+class MinHeap {
+  private idx: Uint32Array;
+  private key: Float32Array;
+  private seq: Uint32Array;
+  private counter = 0;
+  size = 0;
+
+  constructor(capacity: number) {
+    this.idx = new Uint32Array(capacity);
+    this.key = new Float32Array(capacity);
+    this.seq = new Uint32Array(capacity);
+  }
+
+  private grow() {
+    const cap = this.idx.length * 2 || 16;
+    const idx = new Uint32Array(cap), key = new Float32Array(cap), seq = new Uint32Array(cap);
+    idx.set(this.idx); key.set(this.key); seq.set(this.seq);
+    this.idx = idx; this.key = key; this.seq = seq;
+  }
+
+  private less(a: number, b: number) {
+    const ka = this.key[a], kb = this.key[b];
+    return ka < kb || (ka === kb && this.seq[a] < this.seq[b]);
+  }
+
+  private swap(a: number, b: number) {
+    const i = this.idx[a]; this.idx[a] = this.idx[b]; this.idx[b] = i;
+    const k = this.key[a]; this.key[a] = this.key[b]; this.key[b] = k;
+    const s = this.seq[a]; this.seq[a] = this.seq[b]; this.seq[b] = s;
+  }
+
+  push(i: number, k: number) {
+    if (this.size === this.idx.length) this.grow();
+    let p = this.size++;
+    this.idx[p] = i; this.key[p] = k; this.seq[p] = this.counter++;
+    while (p > 0) {
+      const parent = (p - 1) >> 1;
+      if (!this.less(p, parent)) break;
+      this.swap(p, parent);
+      p = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.idx[0];
+    const last = --this.size;
+    if (last > 0) {
+      this.idx[0] = this.idx[last]; this.key[0] = this.key[last]; this.seq[0] = this.seq[last];
+      let p = 0;
+      for (;;) {
+        const l = 2 * p + 1, r = l + 1;
+        let m = p;
+        if (l < last && this.less(l, m)) m = l;
+        if (r < last && this.less(r, m)) m = r;
+        if (m === p) break;
+        this.swap(p, m);
+        p = m;
       }
     }
-    rivers.set(out);
+    return top;
   }
 }
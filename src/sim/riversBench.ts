@@ -0,0 +1,168 @@
+// /src/sim/riversBench.ts
+// Benchmark for brush-time hydrology: replays random sculpting and rain dabs
+// and times updateRivers() against a full computeRivers() on the same inputs,
+// checking that both produce bit-identical river, flow and lake fields. The
+// flatten/plateau/terrace dabs and the raise that clips at 1 leave exact flats,
+// which exercise flat routing.
+// Run with `npm run bench:rivers [-- size dabs]`.
+
+import type { Brush, Fields, SimParams } from "../model/types";
+import { applyBrush } from "./brush";
+import { recomputeClimate, classifyBiomes } from "./climate";
+import { generateHeightField, xorshift32 } from "./noise";
+import { computeRivers, createRiverState, updateRivers } from "./rivers";
+
+export type RiverBenchResult = {
+  size: number;
+  dabs: number;
+  fullMs: number;        // mean per dab
+  incrementalMs: number; // mean per dab
+  speedup: number;
+  mismatches: number;    // cells that differ between the two paths (should be 0)
+};
+
+const PARAMS: SimParams = {
+  size: 1024,
+  wrap: "none",
+  noise: {
+    kind: "perlin", fractal: "fbm",
+    octaves: 6, lacunarity: 2, gain: 0.5, warp: 0.1,
+    ridgeOffset: 1, ridgeSharpness: 2,
+  },
+  climate: {
+    seaLevel: 0.4, tempLapse: 0.5, moistureShift: 0, continentality: 0.5,
+    wind: { trade: 135, westerly: -45, polar: 135, reach: 0.5, orographic: 2 },
+  },
+  mask: { kind: "none", coverage: 0.7, falloff: 0.3, islands: 6 },
+  tectonics: { mode: "off", plates: 12, oceanicRatio: 0.55, upliftWidth: 0.04, upliftStrength: 0.35 },
+  thermal: { iterations: 0, talus: 2, rate: 0.5 },
+  bathymetry: { strength: 0.85, shelfWidth: 0.03, slopeWidth: 0.015, ridgeHeight: 0.35, trenchDepth: 0.3 },
+  glaciers: { iterations: 120, snowline: 0.3, accumulation: 1, flow: 0.5, carve: 0.5 },
+  erosion: { iterations: 0, inertia: 0.05, capacity: 4, deposition: 0.3, erosion: 0.3, evaporation: 0.02 },
+  hydrology: { rainfall: 1, loss: 0.5 },
+  incision: { rate: 0, width: 0.02, deltas: false },
+  planet: { mode: "flat", span: 180, hemisphere: "north", tilt: 23.4, baseTemp: 0 },
+  seaLevel: 0.4,
+  latitude: 0,
+  riverThreshold: 0.01,
+};
+
+const SCULPT: Omit<Brush, "kind" | "radius" | "strength"> = {
+  falloff: { profile: "cosine", curve: [1, 0.95, 0.75, 0.45, 0.15, 0] },
+  spacing: 0.25,
+  flow: 1,
+  pen: { pressureRadius: false, pressureStrength: true, tiltRadius: false },
+  flatten: { mode: "both" },
+  terrace: { steps: 8, sharpness: 0.7 },
+  noise: { seed: 1, scale: 24, octaves: 4 },
+  plateau: { level: 0.6 },
+  slope: { ease: 0 },
+  stamp: { id: null, rotation: 0, scale: 0.2, blend: "add" },
+};
+
+const STROKE_DABS = 6;
+const FLAT_TOP: Brush["falloff"] = { profile: "flat", curve: [] };
+
+const BRUSHES: Brush[] = [
+  { ...SCULPT, kind: "raise", radius: 8, strength: 0.05 },
+  { ...SCULPT, kind: "lower", radius: 8, strength: 0.05 },
+  { ...SCULPT, kind: "rain", radius: 12, strength: 0.2 },
+  // flat-top falloff at full strength: the core lands exactly on the target level
+  { ...SCULPT, kind: "flatten", radius: 12, strength: 1, falloff: FLAT_TOP },
+  { ...SCULPT, kind: "plateau", radius: 12, strength: 1, plateau: { level: 0.5 }, falloff: FLAT_TOP },
+  { ...SCULPT, kind: "terrace", radius: 14, strength: 1, terrace: { steps: 6, sharpness: 1 }, falloff: FLAT_TOP },
+  { ...SCULPT, kind: "raise", radius: 10, strength: 1 }, // clamps to a flat top at 1
+];
+
+// Output fields written by the river pass; inputs are shared between both paths
+function riverOutputs(src: Fields): Fields {
+  const n = src.height.length;
+  return {
+    ...src,
+    rivers: new Uint8Array(n),
+    flow: new Float32Array(n),
+    flowDir: new Uint8Array(n),
+    lakes: new Float32Array(n),
+  };
+}
+
+function countMismatches(a: Fields, b: Fields): number {
+  const fa = new Uint32Array(a.flow.buffer), fb = new Uint32Array(b.flow.buffer);
+  const la = new Uint32Array(a.lakes.buffer), lb = new Uint32Array(b.lakes.buffer);
+  let bad = 0;
+  for (let i = 0; i < a.rivers.length; i++) {
+    if (a.rivers[i] !== b.rivers[i] || a.flowDir[i] !== b.flowDir[i] || fa[i] !== fb[i] || la[i] !== lb[i]) bad++;
+  }
+  return bad;
+}
+
+export function benchRivers(size = 1024, dabs = 40, seed = 1): RiverBenchResult {
+  const params: SimParams = { ...PARAMS, size };
+  const n = size * size;
+  const base: Fields = {
+    height: new Float32Array(n),
+    temperature: new Float32Array(n),
+    moisture: new Float32Array(n),
+    humidity: new Float32Array(n),
+    coastDist: new Float32Array(n),
+    rivers: new Uint8Array(n),
+    flow: new Float32Array(n),
+    flowDir: new Uint8Array(n),
+    lakes: new Float32Array(n),
+    ice: new Float32Array(n),
+    biomes: new Uint8Array(n),
+    koppen: new Uint8Array(n),
+    monthTemp: new Float32Array(n),
+    monthPrecip: new Float32Array(n),
+    mask: new Float32Array(n).fill(1),
+    plates: new Uint8Array(n),
+  };
+  const rain = new Float32Array(n);
+  generateHeightField(base.height, size, seed, params, 1 / 128);
+  recomputeClimate(base, size, params, undefined, rain);
+  classifyBiomes(base.height, base.temperature, base.moisture, size, params, base.biomes);
+
+  const inc = riverOutputs(base);
+  const full = riverOutputs(base);
+  const state = createRiverState(size);
+  computeRivers(inc, size, params, state);
+
+  const rng = xorshift32(seed ^ 0x5bd1e995);
+  let fullMs = 0, incMs = 0, mismatches = 0;
+  let x = 0, y = 0;
+  for (let d = 0; d < dabs; d++) {
+    // cycle the brushes along wandering strokes, so edits land on and beside
+    // the flats earlier dabs left
+    const brush = BRUSHES[d % BRUSHES.length];
+    if (d % STROKE_DABS === 0) {
+      x = Math.floor(rng() * size);
+      y = Math.floor(rng() * size);
+    } else {
+      x = Math.min(size - 1, Math.max(0, x + Math.round((rng() - 0.5) * 3 * brush.radius)));
+      y = Math.min(size - 1, Math.max(0, y + Math.round((rng() - 0.5) * 3 * brush.radius)));
+    }
+    // same pre-river steps as the worker's partialRecompute
+    const dirty = applyBrush(base.height, rain, size, x, y, brush, params.wrap);
+    recomputeClimate(base, size, params, dirty, rain);
+    classifyBiomes(base.height, base.temperature, base.moisture, size, params, base.biomes);
+
+    let t = performance.now();
+    updateRivers(inc, size, params, state, dirty);
+    incMs += performance.now() - t;
+
+    t = performance.now();
+    computeRivers(full, size, params);
+    fullMs += performance.now() - t;
+
+    mismatches += countMismatches(inc, full);
+  }
+
+  return {
+    size,
+    dabs,
+    fullMs: fullMs / dabs,
+    incrementalMs: incMs / dabs,
+    speedup: fullMs / Math.max(1e-9, incMs),
+    mismatches,
+  };
+}
@@ -0,0 +1,159 @@
+// /src/sim/seasons.ts
+// Twelve-month climate (monthly computeTemperature/computeMoisture passes) and
+// the Köppen-Geiger classification derived from it.
+
+import type { SimParams, Fields } from "../model/types";
+import { unionRect, type DirtyRect } from "./brush";
+import { Koppen } from "../model/constants";
+import { computeTemperature, computeMoisture, rowLatitude, MONTHS } from "./climate";
+
+// Model units → physical units for the Köppen thresholds. Calibrated so the
+// biome bands line up: cold/temperate at ~0 °C, temperate/warm at ~18 °C,
+// desert moisture at ~250 mm/yr.
+const CELSIUS_PER_UNIT = 55;
+const CELSIUS_AT_ZERO = -18;
+const MM_PER_MONTH = 250; // at moisture 1 (precipitation grows with moisture²)
+
+export type SeasonState = {
+  size: number;
+  temp: Float32Array;   // MONTHS × size², month-major, °C
+  precip: Float32Array; // MONTHS × size², month-major, mm
+  air: Float32Array;    // MONTHS × size², per-month wind advection state (see computeMoisture)
+};
+
+export function createSeasonState(size: number): SeasonState {
+  const n = MONTHS * size * size;
+  return { size, temp: new Float32Array(n), precip: new Float32Array(n), air: new Float32Array(n) };
+}
+
+/**
+ * Monthly temperature (°C) and precipitation (mm) for all 12 months into `state`.
+ * With `rect`, only that area is updated (per-month `air` keeps upwind state),
+ * and precipitation everywhere downwind of it. Returns the rect updated.
+ * `rain` is the user-painted moisture layer, if any.
+ */
+export function computeSeasons(
+  fields: Fields,
+  size: number,
+  params: SimParams,
+  state: SeasonState,
+  rect?: DirtyRect,
+  rain?: Float32Array
+): DirtyRect {
+  const n = size * size;
+  const r = rect ?? { x0: 0, y0: 0, x1: size - 1, y1: size - 1 };
+  let wet = r;
+  for (let m = 0; m < MONTHS; m++) {
+    const temp = state.temp.subarray(m * n, (m + 1) * n);
+    const precip = state.precip.subarray(m * n, (m + 1) * n);
+    const air = state.air.subarray(m * n, (m + 1) * n);
+    computeTemperature(fields.height, size, params, temp, rect, fields.coastDist, m);
+    const pr = computeMoisture(fields.height, size, params, precip, rect, rain, air, fields.coastDist, m);
+    for (let y = r.y0; y <= r.y1; y++) {
+      for (let i = y * size + r.x0; i <= y * size + r.x1; i++) temp[i] = CELSIUS_AT_ZERO + CELSIUS_PER_UNIT * temp[i];
+    }
+    for (let y = pr.y0; y <= pr.y1; y++) {
+      for (let i = y * size + pr.x0; i <= y * size + pr.x1; i++) precip[i] = MM_PER_MONTH * precip[i] * precip[i];
+    }
+    wet = unionRect(wet, pr);
+  }
+  return wet;
+}
+
+// [s, w, f][a, b, c, d]
+const TEMPERATE = [
+  [Koppen.Csa, Koppen.Csb, Koppen.Csc],
+  [Koppen.Cwa, Koppen.Cwb, Koppen.Cwc],
+  [Koppen.Cfa, Koppen.Cfb, Koppen.Cfc],
+];
+const CONTINENTAL = [
+  [Koppen.Dsa, Koppen.Dsb, Koppen.Dsc, Koppen.Dsd],
+  [Koppen.Dwa, Koppen.Dwb, Koppen.Dwc, Koppen.Dwd],
+  [Koppen.Dfa, Koppen.Dfb, Koppen.Dfc, Koppen.Dfd],
+];
+
+/** Copy month `month` of `state` into the per-month view fields. */
+export function copyMonth(state: SeasonState, month: number, fields: Fields) {
+  const n = state.size * state.size;
+  fields.monthTemp.set(state.temp.subarray(month * n, (month + 1) * n));
+  fields.monthPrecip.set(state.precip.subarray(month * n, (month + 1) * n));
+}
+
+/**
+ * Köppen-Geiger class per land cell from the monthly climate in `state`
+ * (Peel et al. 2007: C/D split at 0 °C, E checked before B). Summer is
+ * April–September in the northern hemisphere, October–March in the southern.
+ */
+export function classifyKoppen(
+  height: Float32Array,
+  size: number,
+  params: SimParams,
+  state: SeasonState,
+  out: Uint8Array,
+  rect?: DirtyRect
+) {
+  const sea = params.climate.seaLevel;
+  const n = size * size;
+  const r = rect ?? { x0: 0, y0: 0, x1: size - 1, y1: size - 1 };
+
+  for (let y = r.y0; y <= r.y1; y++) {
+    const north = rowLatitude(y, size, params) >= 0;
+    const isSummer = (m: number) => (m >= 3 && m <= 8) === north;
+    for (let x = r.x0; x <= r.x1; x++) {
+      const i = y * size + x;
+      if (height[i] < sea) {
+        out[i] = Koppen.None;
+        continue;
+      }
+
+      let tHot = -Infinity, tCold = Infinity, tMean = 0, warmMonths = 0;
+      let pYear = 0, pDry = Infinity, pSummer = 0;
+      let sDry = Infinity, sWet = 0, wDry = Infinity, wWet = 0;
+      for (let m = 0; m < MONTHS; m++) {
+        const t = state.temp[m * n + i];
+        const p = state.precip[m * n + i];
+        tHot = Math.max(tHot, t); tCold = Math.min(tCold, t); tMean += t / MONTHS;
+        if (t >= 10) warmMonths++;
+        pYear += p; pDry = Math.min(pDry, p);
+        if (isSummer(m)) { pSummer += p; sDry = Math.min(sDry, p); sWet = Math.max(sWet, p); }
+        else { wDry = Math.min(wDry, p); wWet = Math.max(wWet, p); }
+      }
+
+      // E: polar
+      if (tHot < 10) {
+        out[i] = tHot > 0 ? Koppen.ET : Koppen.EF;
+        continue;
+      }
+
+      // B: arid, threshold raised when rain falls in the warm half
+      const summerShare = pYear > 0 ? pSummer / pYear : 0.5;
+      const pThreshold = 20 * tMean + (summerShare >= 0.7 ? 280 : summerShare >= 0.3 ? 140 : 0);
+      if (pYear < pThreshold) {
+        const hot = tMean >= 18;
+        if (pYear < pThreshold / 2) out[i] = hot ? Koppen.BWh : Koppen.BWk;
+        else out[i] = hot ? Koppen.BSh : Koppen.BSk;
+        continue;
+      }
+
+      // A: tropical
+      if (tCold >= 18) {
+        if (pDry >= 60) out[i] = Koppen.Af;
+        else if (pDry >= 100 - pYear / 25) out[i] = Koppen.Am;
+        else out[i] = Koppen.Aw;
+        continue;
+      }
+
+      // C/D: s (dry summer), w (dry winter) or f, then a/b/c/d by summer heat
+      const season = sDry < 40 && sDry < wWet / 3 ? 0 : wDry < sWet / 10 ? 1 : 2;
+      const heat =
+        tHot >= 22 ? 0 :
+        warmMonths >= 4 ? 1 :
+        tCold < -38 ? 3 : 2;
+      if (tCold > 0) {
+        out[i] = TEMPERATE[season][Math.min(heat, 2)]; // no "d" in temperate climates
+      } else {
+        out[i] = CONTINENTAL[season][heat];
+      }
+    }
+  }
+}
@@ -0,0 +1,202 @@
+// /src/sim/tectonics.ts
+// Plate-tectonics height stage: seeded Voronoi plates with motion vectors.
+// Convergent boundaries build mountain ranges / trenches, divergent ones
+// open rifts / mid-ocean ridges, and each plate carries a continental or
+// oceanic base crust height. Runs before (blend) or instead of (replace) the
+// fBM heightfield; the plate id map is kept for visualization.
+
+import type { NoiseParams, TectonicsParams, WrapMode } from "../model/types";
+import { xorshift32, createNoise, fbm2D, sampleTileable } from "./noise";
+import { D8_X, D8_Y } from "./rivers";
+
+type Plate = {
+  x: number; y: number;   // center in grid cells
+  vx: number; vy: number; // motion vector (cells per "step", unit-ish)
+  oceanic: boolean;
+};
+
+const CONTINENTAL_CRUST = 0.62;
+const OCEANIC_CRUST = 0.22;
+
+/** Seed plate centers, motion vectors and crust types. */
+function seedPlates(size: number, seed: number, p: TectonicsParams): Plate[] {
+  const rng = xorshift32(seed ^ 0x7f4a7c15);
+  const plates: Plate[] = [];
+  const n = Math.max(2, Math.min(255, Math.floor(p.plates)));
+  for (let k = 0; k < n; k++) {
+    const a = rng() * Math.PI * 2;
+    const speed = 0.3 + 0.7 * rng();
+    plates.push({
+      x: rng() * size,
+      y: rng() * size,
+      vx: Math.cos(a) * speed,
+      vy: Math.sin(a) * speed,
+      oceanic: rng() < p.oceanicRatio,
+    });
+  }
+  return plates;
+}
+
+/**
+ * Build a tectonic heightfield into `height` and the plate id map into `plates`.
+ * - mode 'replace': crust + boundary features + a little of the incoming noise for detail
+ * - mode 'blend':   average of incoming noise and the tectonic field
+ * - mode 'off':     leaves `height` untouched, only clears `plates`
+ * `height` holds the normalized noise on entry and the normalized result on exit.
+ * `ky` is the row height in column widths (see rowSpacing); distances use it.
+ */
+export function applyTectonics(
+  height: Float32Array,
+  plates: Uint8Array,
+  size: number,
+  seed: number,
+  p: TectonicsParams,
+  wrap: WrapMode = "none",
+  ky = 1
+) {
+  if (p.mode === "off") {
+    plates.fill(0);
+    return;
+  }
+
+  const n = size * size;
+  const wx = wrap !== "none";
+  const wy = wrap === "xy";
+  const list = seedPlates(size, seed, p);
+
+  // wrap-aware offset between two coordinates
+  const dOff = (a: number, b: number, wraps: boolean) => {
+    let d = a - b;
+    if (wraps) {
+      if (d > size / 2) d -= size;
+      else if (d < -size / 2) d += size;
+    }
+    return d;
+  };
+
+  // 1) Voronoi assignment with noisy boundaries so plates aren't straight polygons
+  const jitter = createNoise("simplex", seed ^ 0x3c6ef372);
+  const np: NoiseParams = {
+    kind: "simplex", fractal: "fbm", octaves: 3, lacunarity: 2, gain: 0.5, warp: 0,
+    ridgeOffset: 1, ridgeSharpness: 1,
+  };
+  const jitterAmp = size * 0.08;
+  // periodic on wrapped axes, so the plates meet across the seam
+  const jitterX = (x: number, y: number) => fbm2D(jitter, x, y, np, 4 / size);
+  const jitterY = (x: number, y: number) => fbm2D(jitter, x + 917, y + 331, np, 4 / size);
+  const sampleJitter = (f: typeof jitterX, x: number, y: number) =>
+    wx ? sampleTileable(f, x, y, size, wrap) : f(x, y);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const jx = x + (sampleJitter(jitterX, x, y) - 0.5) * 2 * jitterAmp;
+      const jy = y + ((sampleJitter(jitterY, x, y) - 0.5) * 2 * jitterAmp) / ky;
+      let best = 0, bestD = Infinity;
+      for (let k = 0; k < list.length; k++) {
+        const dx = dOff(jx, list[k].x, wx), dy = dOff(jy, list[k].y, wy) * ky;
+        const d = dx * dx + dy * dy;
+        if (d < bestD) { bestD = d; best = k; }
+      }
+      plates[y * size + x] = best;
+    }
+  }
+
+  // 2) Boundary cells: record neighbour plate and convergence along the boundary normal
+  //    (>0 converging, <0 diverging)
+  const src = new Int32Array(n).fill(-1);   // nearest boundary cell index
+  const other = new Int16Array(n).fill(-1); // plate across that boundary
+  const stress = new Float32Array(n);
+  const dist = new Float32Array(n).fill(Infinity);
+
+  const neighbour = (x: number, y: number, ox: number, oy: number) => {
+    let nx = x + ox, ny = y + oy;
+    if (wx) nx = (nx + size) % size;
+    if (wy) ny = (ny + size) % size;
+    if (nx < 0 || ny < 0 || nx >= size || ny >= size) return -1;
+    return ny * size + nx;
+  };
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = y * size + x;
+      const a = plates[i];
+      // first neighbour on a different plate, if any
+      let b = -1;
+      for (let k = 0; k < 8 && b < 0; k++) {
+        const j = neighbour(x, y, D8_X[k], D8_Y[k]);
+        if (j >= 0 && plates[j] !== a) b = plates[j];
+      }
+      if (b < 0) continue;
+
+      const A = list[a], B = list[b];
+      let nxv = dOff(B.x, A.x, wx), nyv = dOff(B.y, A.y, wy) * ky;
+      const len = Math.hypot(nxv, nyv) || 1;
+      nxv /= len; nyv /= len;
+      stress[i] = (A.vx - B.vx) * nxv + (A.vy - B.vy) * nyv;
+      other[i] = b;
+      src[i] = i;
+      dist[i] = 0;
+    }
+  }
+
+  // 3) Two-pass chamfer sweep: propagate the nearest boundary cell to every cell
+  const relax = (i: number, j: number) => {
+    const s = src[j];
+    if (s < 0) return;
+    const sx = s % size, sy = (s - sx) / size;
+    const x = i % size, y = (i - x) / size;
+    const d = Math.hypot(dOff(x, sx, wx), dOff(y, sy, wy) * ky);
+    if (d < dist[i]) { dist[i] = d; src[i] = s; }
+  };
+  const FWD = [[-1, -1], [0, -1], [1, -1], [-1, 0]];
+  const BWD = [[1, 1], [0, 1], [-1, 1], [1, 0]];
+  for (let pass = 0; pass < 2; pass++) {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const i = y * size + x;
+        for (const [ox, oy] of FWD) { const j = neighbour(x, y, ox, oy); if (j >= 0) relax(i, j); }
+      }
+    }
+    for (let y = size - 1; y >= 0; y--) {
+      for (let x = size - 1; x >= 0; x--) {
+        const i = y * size + x;
+        for (const [ox, oy] of BWD) { const j = neighbour(x, y, ox, oy); if (j >= 0) relax(i, j); }
+      }
+    }
+  }
+
+  // 4) Crust + boundary profiles
+  const width = Math.max(1, p.upliftWidth * size);
+  const k = p.upliftStrength;
+  let minV = Infinity, maxV = -Infinity;
+  for (let i = 0; i < n; i++) {
+    const P = list[plates[i]];
+    let h = P.oceanic ? OCEANIC_CRUST : CONTINENTAL_CRUST;
+
+    const s = src[i];
+    if (s >= 0) {
+      const c = stress[s]; // symmetric, so valid from either side of the boundary
+      // the plate across the boundary from *this* cell
+      const Q = list[plates[s] === plates[i] ? other[s] : plates[s]];
+      const t = dist[i] / width;
+      const fall = Math.exp(-t * t); // bell profile around the boundary
+      if (c > 0) {
+        if (!P.oceanic) h += k * c * fall;                   // continental collision / active margin
+        else if (!Q.oceanic) h -= k * 0.6 * c * fall;        // subducting slab → trench
+        else h += k * 0.5 * c * Math.exp(-4 * t * t);        // ocean–ocean: narrow island arc
+      } else if (c < 0) {
+        if (!P.oceanic) h -= k * 0.5 * -c * fall;            // continental rift valley
+        else h += k * 0.3 * -c * Math.exp(-4 * t * t);       // mid-ocean ridge
+      }
+    }
+
+    // 'replace' keeps a little noise as surface detail; 'blend' averages both
+    const noise = height[i];
+    const v = p.mode === "replace" ? h + (noise - 0.5) * 0.25 : 0.5 * h + 0.5 * noise;
+    height[i] = v;
+    if (v < minV) minV = v;
+    if (v > maxV) maxV = v;
+  }
+
+  const inv = maxV > minV ? 1 / (maxV - minV) : 1;
+  for (let i = 0; i < n; i++) height[i] = (height[i] - minV) * inv;
+}
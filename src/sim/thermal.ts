@@ -0,0 +1,96 @@
+// /src/sim/thermal.ts
+// Thermal (talus) erosion: material slides from a cell to lower neighbours
+// wherever the height difference exceeds the talus threshold. Builds scree
+// slopes and knocks the tips off the spiky peaks high-octave fBM produces.
+
+import type { ThermalParams, WrapMode } from "../model/types";
+import type { DirtyRect } from "./brush";
+import { D8_X, D8_Y } from "./rivers";
+
+/**
+ * Run `iterations` relaxation passes over `rect` (whole grid if omitted).
+ * - `params.talus` is the steepest stable slope in height units per map width,
+ *   so the look doesn't change with `size`.
+ * - `params.rate` (0..1) is how much of the excess moves per pass.
+ * - `ky` is the row height in column widths (see rowSpacing).
+ * Material only moves between cells inside `rect`, so callers (e.g. brushes)
+ * can recompute exactly that rect afterwards. Each pass accumulates deltas
+ * before applying them, so results don't depend on scan order.
+ */
+export function thermalErosion(
+  height: Float32Array,
+  size: number,
+  params: ThermalParams,
+  rect?: DirtyRect,
+  wrap: WrapMode = "none",
+  iterations = params.iterations,
+  ky = 1
+) {
+  const passes = Math.max(0, Math.floor(iterations));
+  if (passes === 0) return;
+
+  const r = rect ?? { x0: 0, y0: 0, x1: size - 1, y1: size - 1 };
+  const w = r.x1 - r.x0 + 1;
+  const h = r.y1 - r.y0 + 1;
+  const talus = params.talus / size;
+  const rate = params.rate;
+  const len = D8_X.map((dx, k) => Math.hypot(dx, D8_Y[k] * ky));
+  // Only wrap an axis the rect covers end to end, otherwise we'd leak outside it
+  const wx = wrap !== "none" && w === size;
+  const wy = wrap === "xy" && h === size;
+
+  const delta = new Float32Array(w * h);
+  const drops = new Float32Array(8);
+
+  // rect-local index of a neighbour, or -1 if it falls outside the rect
+  const local = (lx: number, ly: number) => {
+    if (wx) lx = (lx + w) % w;
+    if (wy) ly = (ly + h) % h;
+    if (lx < 0 || ly < 0 || lx >= w || ly >= h) return -1;
+    return ly * w + lx;
+  };
+
+  for (let it = 0; it < passes; it++) {
+    delta.fill(0);
+
+    for (let ly = 0; ly < h; ly++) {
+      for (let lx = 0; lx < w; lx++) {
+        const i = (r.y0 + ly) * size + (r.x0 + lx);
+        const z = height[i];
+
+        // excess drop over the talus threshold toward each neighbour
+        let total = 0, maxExcess = 0;
+        for (let k = 0; k < 8; k++) {
+          drops[k] = 0;
+          const j = local(lx + D8_X[k], ly + D8_Y[k]);
+          if (j < 0) continue;
+          const jy = Math.floor(j / w), jx = j - jy * w;
+          const zj = height[(r.y0 + jy) * size + (r.x0 + jx)];
+          const excess = (z - zj) - talus * len[k];
+          if (excess > 0) {
+            drops[k] = excess;
+            total += excess;
+            if (excess > maxExcess) maxExcess = excess;
+          }
+        }
+        if (total <= 0) continue;
+
+        // move half the largest excess (so we never overshoot), split by excess
+        const moved = rate * maxExcess * 0.5;
+        delta[ly * w + lx] -= moved;
+        for (let k = 0; k < 8; k++) {
+          if (drops[k] <= 0) continue;
+          delta[local(lx + D8_X[k], ly + D8_Y[k])] += moved * (drops[k] / total);
+        }
+      }
+    }
+
+    for (let ly = 0; ly < h; ly++) {
+      const row = (r.y0 + ly) * size + r.x0;
+      for (let lx = 0; lx < w; lx++) {
+        const v = height[row + lx] + delta[ly * w + lx];
+        height[row + lx] = v < 0 ? 0 : v > 1 ? 1 : v;
+      }
+    }
+  }
+}
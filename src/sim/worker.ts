@@ -4,12 +4,26 @@
 /// <reference lib="webworker" />
 
 import type { WorkerIn, WorkerOut } from "./protocol";
-import type { Fields, SimParams } from "../model/types";
+import type { BiomeRules, Brush, Fields, SimParams, Stamp } from "../model/types";
 import type { DirtyRect } from "./brush";
-import { applyBrush } from "./brush";
-import { generateHeightField } from "./noise";
-import { recomputeDerived } from "./climate";
-import { computeRivers /*, dilateRivers */ } from "./rivers";
+import { applyBrush, brushAtDab, paintMask, sampleHeight, strokeBounds, diffRect, unionRect } from "./brush";
+import { generateHeightField, rowSpacing } from "./noise";
+import { buildMask, applyMask, applyMaskDelta } from "./masks";
+import { applyTectonics } from "./tectonics";
+import { hydraulicErosion, erodeBrush } from "./erosion";
+import { thermalErosion } from "./thermal";
+import { applyBathymetry } from "./bathymetry";
+import { computeGlaciers } from "./glaciers";
+import { carveRivers } from "./incision";
+import { recomputeClimate, classifyBiomes } from "./climate";
+import { computeCoastDistance, coastlineChanged } from "./coast";
+import { computeRivers, updateRivers, createRiverState, type RiverState } from "./rivers";
+import { DEFAULT_BIOME_RULES } from "../model/biomes";
+import { computeSeasons, classifyKoppen, copyMonth, createSeasonState, type SeasonState } from "./seasons";
+import {
+  beginStroke, clearHistory, createHistory, endStroke, extendStroke, historyItems, redo, undo,
+  type EditLayers, type HistoryState,
+} from "./history";
 
 // If you prefer stricter typing of 'self' as a DedicatedWorkerGlobalScope:
 const ctx: DedicatedWorkerGlobalScope = self as unknown as DedicatedWorkerGlobalScope;
@@ -19,10 +33,19 @@ let size = 512;
 let seed = 1;
 let params: SimParams;
 let fields: Fields;
+let rawHeight: Float32Array;   // normalized noise before the mask is applied
+let paintedMask: Float32Array; // user-painted mask layer, survives regeneration
+let rainLayer: Float32Array;   // moisture added by the rain brush, survives regeneration
+let hydro: RiverState;         // persistent flow buffers for incremental river updates
+let season: SeasonState;       // 12-month climate behind the Köppen field
+let month = 0;                 // month copied into fields.monthTemp/monthPrecip
+let rules: BiomeRules = DEFAULT_BIOME_RULES;
+let history: HistoryState;     // undo/redo of brush strokes
+let strokeLevel = 0;           // height under the open stroke's first dab (flatten target)
+let stamps = new Map<string, Stamp>(); // stamp brush images by id
 
 // Tune this as needed
 const DEFAULT_BASE_FREQ = 1 / 128;
-const USE_ISLAND_MASK = false;
 
 // ---------- Helpers ----------
 function allocateFields(n: number): Fields {
@@ -30,8 +53,19 @@ function allocateFields(n: number): Fields {
     height: new Float32Array(n * n),
     temperature: new Float32Array(n * n),
     moisture: new Float32Array(n * n),
+    humidity: new Float32Array(n * n),
+    coastDist: new Float32Array(n * n),
     rivers: new Uint8Array(n * n),
+    flow: new Float32Array(n * n),
+    flowDir: new Uint8Array(n * n),
+    lakes: new Float32Array(n * n),
+    ice: new Float32Array(n * n),
     biomes: new Uint8Array(n * n),
+    koppen: new Uint8Array(n * n),
+    monthTemp: new Float32Array(n * n),
+    monthPrecip: new Float32Array(n * n),
+    mask: new Float32Array(n * n),
+    plates: new Uint8Array(n * n),
   };
 }
 
@@ -39,6 +73,12 @@ function ensureSize(newSize: number) {
   if (!fields || size !== newSize) {
     size = newSize;
     fields = allocateFields(size);
+    rawHeight = new Float32Array(size * size);
+    paintedMask = new Float32Array(size * size).fill(1);
+    rainLayer = new Float32Array(size * size);
+    hydro = createRiverState(size);
+    season = createSeasonState(size);
+    history = createHistory(size);
   }
 }
 
@@ -47,41 +87,157 @@ function postProgress(phase: string, pct: number) {
   ctx.postMessage(msg);
 }
 
-function postResult() {
-  const msg: WorkerOut = { t: "result", fields };
+function postResult(cause: WorkerIn["t"]) {
+  copyMonth(season, month, fields);
+  const msg: WorkerOut = { t: "result", fields, cause };
   ctx.postMessage(msg); // <-- remove the transfer list
 }
 
+function postHistory() {
+  const msg: WorkerOut = { t: "history", ...historyItems(history) };
+  ctx.postMessage(msg);
+}
+
+const editLayers = (): EditLayers => ({ height: fields.height, rain: rainLayer, mask: paintedMask });
+
+// Copy the painted mask into the mask in effect (when it is the painted one)
+function syncPaintedMask(rect: DirtyRect) {
+  if (params.mask.kind !== "painted") return;
+  for (let y = rect.y0; y <= rect.y1; y++) {
+    const row = y * size;
+    fields.mask.set(paintedMask.subarray(row + rect.x0, row + rect.x1 + 1), row + rect.x0);
+  }
+}
+
 function fullRecompute() {
   postProgress("height", 0.0);
-  generateHeightField(
-    fields.height,
-    size,
-    seed,
-    params,
-    DEFAULT_BASE_FREQ,
-    { islandMask: USE_ISLAND_MASK }
-  );
+  generateHeightField(rawHeight, size, seed, params, DEFAULT_BASE_FREQ);
   postProgress("height", 1.0);
 
+  postProgress("tectonics", 0.0);
+  applyTectonics(rawHeight, fields.plates, size, seed, params.tectonics, params.wrap, rowSpacing(params));
+  postProgress("tectonics", 1.0);
+
+  if (params.mask.kind === "painted") fields.mask.set(paintedMask);
+  else buildMask(fields.mask, size, seed, params.mask, params.wrap);
+  applyMask(fields.height, rawHeight, fields.mask, size);
+
+  postProgress("thermal", 0.0);
+  thermalErosion(fields.height, size, params.thermal, undefined, params.wrap, undefined, rowSpacing(params));
+  postProgress("thermal", 1.0);
+
+  postProgress("erosion", 0.0);
+  hydraulicErosion(fields.height, size, seed, params, (pct) => postProgress("erosion", pct));
+  postProgress("erosion", 1.0);
+
+  postProgress("bathymetry", 0.0);
+  applyBathymetry(fields.height, size, params.climate.seaLevel, params.bathymetry, params.wrap, rowSpacing(params));
+  postProgress("bathymetry", 1.0);
+
   postProgress("climate", 0.0);
-  recomputeDerived(fields, size, params);
+  computeCoastDistance(fields.height, size, params.climate.seaLevel, params.wrap, fields.coastDist, rowSpacing(params));
+  recomputeClimate(fields, size, params, undefined, rainLayer);
   postProgress("climate", 1.0);
 
+  postProgress("glaciers", 0.0);
+  // Carved valleys change the terrain under the climate, so redo it
+  if (computeGlaciers(fields, size, params)) recomputeClimate(fields, size, params, undefined, rainLayer);
+  postProgress("glaciers", 1.0);
+
+  // Provisional biomes (no lakes yet) drive the per-biome water loss in computeRivers
+  classifyBiomes(fields.height, fields.temperature, fields.moisture, size, params, fields.biomes, undefined, undefined, fields.ice, rules);
+
   postProgress("rivers", 0.0);
-  computeRivers(fields, size, params);
-  // Optional visual thickening:
-  // dilateRivers(fields.rivers, size, 1);
+  computeRivers(fields, size, params, hydro, rules);
+  if (carveRivers(fields, size, params)) {
+    // Valleys and deltas reshape the terrain: redo what the rivers read, then the rivers
+    computeCoastDistance(fields.height, size, params.climate.seaLevel, params.wrap, fields.coastDist, rowSpacing(params));
+    recomputeClimate(fields, size, params, undefined, rainLayer);
+    classifyBiomes(fields.height, fields.temperature, fields.moisture, size, params, fields.biomes, undefined, undefined, fields.ice, rules);
+    computeRivers(fields, size, params, hydro, rules);
+  }
   postProgress("rivers", 1.0);
+
+  // After rivers, which may have carved the terrain
+  postProgress("seasons", 0.0);
+  computeSeasons(fields, size, params, season, undefined, rainLayer);
+  classifyKoppen(fields.height, size, params, season, fields.koppen);
+  postProgress("seasons", 1.0);
+
+  // Biomes last: they need lakes from the river pass
+  classifyBiomes(fields.height, fields.temperature, fields.moisture, size, params, fields.biomes, undefined, fields.lakes, fields.ice, rules);
 }
 
+// New biome rules: reclassify from the current climate (no height regeneration).
+// Rivers follow, since their water loss is per biome.
+function reclassify() {
+  classifyBiomes(fields.height, fields.temperature, fields.moisture, size, params, fields.biomes, undefined, undefined, fields.ice, rules);
+  computeRivers(fields, size, params, hydro, rules);
+  classifyBiomes(fields.height, fields.temperature, fields.moisture, size, params, fields.biomes, undefined, fields.lakes, fields.ice, rules);
+}
+
+// Glaciers are a slow global stage and keep their last full-recompute extent.
 function partialRecompute(dirty: DirtyRect) {
-  // Recompute temperature/moisture/biomes only in dirty area for snappy brushes
-  recomputeDerived(fields, size, params, dirty);
+  // Distances are global, but only move when the dab changed the coastline
+  // (and then climate follows wherever continentality moved)
+  const sea = params.climate.seaLevel;
+  let climateRect = dirty;
+  if (coastlineChanged(fields.height, fields.coastDist, size, sea, dirty)) {
+    const before = fields.coastDist.slice();
+    computeCoastDistance(fields.height, size, sea, params.wrap, fields.coastDist, rowSpacing(params));
+    const moved = diffRect(before, fields.coastDist, size);
+    if (moved) climateRect = unionRect(dirty, moved);
+  }
+  // Temperature only moves in that area; moisture also downwind of it
+  // (rain shadows), so climate returns the wider rect it updated
+  const wet = recomputeClimate(fields, size, params, climateRect, rainLayer);
+  const seasonal = computeSeasons(fields, size, params, season, climateRect, rainLayer);
+  classifyKoppen(fields.height, size, params, season, fields.koppen, seasonal);
+  // Provisional biomes (no lakes) everywhere, exactly as fullRecompute feeds computeRivers
+  classifyBiomes(fields.height, fields.temperature, fields.moisture, size, params, fields.biomes, undefined, undefined, fields.ice, rules);
+
+  // Rivers are global (upstream effects); updateRivers re-routes only what the
+  // dab reached (and re-accumulates the rain that moved downwind) and stays
+  // bit-identical to a full computeRivers
+  updateRivers(fields, size, params, hydro, dirty, rules, wet);
 
-  // Rivers are global (upstream effects), so do a full recompute for correctness.
-  // At 512² this is fine; you can optimize later with tiling/queues.
-  computeRivers(fields, size, params);
+  // Lakes can fill or drain outside the dirty rect, so reclassify everywhere (cheap)
+  classifyBiomes(fields.height, fields.temperature, fields.moisture, size, params, fields.biomes, undefined, fields.lakes, fields.ice, rules);
+}
+
+// Stamp one brush dab; returns the rect it edited
+function applyDab(x: number, y: number, brush: Brush): DirtyRect {
+  if (brush.kind === "mask" || brush.kind === "unmask") {
+    // Edit the painted layer; only reshape terrain if that layer is in effect.
+    // The height moves by the mask change, keeping earlier edits underneath.
+    const dirty = paintMask(paintedMask, size, x, y, brush, params.wrap, rowSpacing(params));
+    if (params.mask.kind === "painted") {
+      const w = dirty.x1 - dirty.x0 + 1;
+      const before = new Float32Array(w * (dirty.y1 - dirty.y0 + 1));
+      for (let y = dirty.y0; y <= dirty.y1; y++) {
+        before.set(fields.mask.subarray(y * size + dirty.x0, y * size + dirty.x1 + 1), (y - dirty.y0) * w);
+      }
+      syncPaintedMask(dirty);
+      applyMaskDelta(fields.height, rawHeight, fields.mask, before, size, dirty);
+    }
+    return dirty;
+  }
+
+  if (brush.kind === "erode") {
+    return erodeBrush(fields.height, size, x, y, brush, seed, params);
+  }
+
+  if (brush.kind === "relax") {
+    // strength 0..1 → 1..20 relaxation passes per dab
+    const dirty = strokeBounds(x, y, brush.radius, size, 1, params.wrap, rowSpacing(params));
+    const passes = Math.max(1, Math.round(brush.strength * 20));
+    thermalErosion(fields.height, size, params.thermal, dirty, params.wrap, passes, rowSpacing(params));
+    return dirty;
+  }
+
+  // Mutate height (or the rain layer) locally
+  const stamp = brush.kind === "stamp" && brush.stamp.id ? stamps.get(brush.stamp.id) : undefined;
+  return applyBrush(fields.height, rainLayer, size, x, y, brush, params.wrap, strokeLevel, stamp, rowSpacing(params));
 }
 
 // ---------- Message handling ----------
@@ -94,7 +250,9 @@ ctx.onmessage = (ev: MessageEvent<WorkerIn>) => {
       seed = msg.seed;
       ensureSize(params.size);
       fullRecompute();
-      postResult();
+      postResult("init");
+      clearHistory(history); // edits don't carry over to regenerated terrain
+      postHistory();
       break;
     }
 
@@ -102,22 +260,68 @@ ctx.onmessage = (ev: MessageEvent<WorkerIn>) => {
       params = msg.params;
       ensureSize(params.size);
       fullRecompute();
-      postResult();
+      postResult("recompute");
+      clearHistory(history);
+      postHistory();
+      break;
+    }
+
+    case "biomes": {
+      rules = msg.rules;
+      if (fields) {
+        reclassify();
+        postResult("biomes");
+      }
+      break;
+    }
+
+    case "month": {
+      month = msg.month;
+      if (fields) postResult("month"); // before init there is nothing to show yet
       break;
     }
 
     case "brush": {
-      // Mutate height/moisture locally, then recompute derived + rivers
-      const dirty = applyBrush(
-        fields.height,
-        fields.moisture,
-        size,
-        msg.x,
-        msg.y,
-        msg.brush
-      );
-      partialRecompute(dirty);
-      postResult();
+      if (!fields) break;
+      // One frame's dabs: stamp them all, then recompute the union once
+      if (beginStroke(history, editLayers(), msg.brush.kind) && msg.dabs.length) {
+        const { x, y } = msg.dabs[0];
+        strokeLevel = sampleHeight(fields.height, size, x, y, params.wrap);
+      }
+      let dirty: DirtyRect | null = null;
+      for (const dab of msg.dabs) {
+        const d = applyDab(dab.x, dab.y, brushAtDab(msg.brush, dab));
+        extendStroke(history, d);
+        dirty = dirty ? unionRect(dirty, d) : d;
+      }
+      // Painting an unused mask layer leaves the terrain as it is
+      const masking = msg.brush.kind === "mask" || msg.brush.kind === "unmask";
+      if (dirty && (!masking || params.mask.kind === "painted")) partialRecompute(dirty);
+      postResult("brush"); // always answer: the bridge holds further dabs until it hears back
+      break;
+    }
+
+    case "stamps": {
+      stamps = new Map(msg.stamps.map((s) => [s.id, s]));
+      break;
+    }
+
+    case "strokeEnd": {
+      if (fields && endStroke(history, editLayers())) postHistory();
+      break;
+    }
+
+    case "undo":
+    case "redo": {
+      if (!fields) break;
+      endStroke(history, editLayers()); // a stroke still open counts as done
+      const rect = msg.t === "undo" ? undo(history, editLayers()) : redo(history, editLayers());
+      if (rect) {
+        syncPaintedMask(rect);
+        partialRecompute(rect);
+        postResult(msg.t);
+      }
+      postHistory();
       break;
     }
   }
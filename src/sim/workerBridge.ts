@@ -1,12 +1,18 @@
 // /src/sim/workerBridge.ts
 
-import type { Stage } from "../pixi/stage";
-import { terrainTextureFromFields } from "../pixi/textures";
-import type { SimParams, Brush } from "../model/types";
-import type { WorkerIn, WorkerOut } from "./protocol";
+import type { Texture } from "pixi.js";
+import type { Stage, OverlayKind } from "../pixi/stage";
+import { terrainTextureFromFields, textureFromBiomes, textureFromMask, textureFromPlates, textureFromWind, textureFromCoastDistance,
+  textureFromKoppen, textureFromMonthTemp, textureFromMonthPrecip, textureFromIce } from "../pixi/textures";
+import type { SimParams, Brush, Dab, Fields, BiomeRules, Stamp } from "../model/types";
+import type { MsgHistory, WorkerIn, WorkerOut } from "./protocol";
+import { DEFAULT_BIOME_RULES } from "../model/biomes";
+import { rowSpacing } from "./noise";
 
 type BridgeOpts = {
   onProgress?: (phase: string, pct: number) => void;
+  onFields?: (fields: Fields) => void; // every applied result (e.g. for the planet preview)
+  onHistory?: (history: Omit<MsgHistory, "t">) => void; // undo/redo steps changed
   rafCoalesce?: boolean;
 };
 
@@ -14,8 +20,15 @@ export type WorkerBridge = {
   worker: Worker;
   init: (seed: number, params: SimParams) => void;
   recompute: (params: SimParams) => void;
-  brush: (x: number, y: number, brush: Brush) => void;
+  brush: (dabs: Dab[], brush: Brush) => void; // queued; sent at most once per frame while the worker keeps up
+  endStroke: () => void;                  // dabs since the last call become one undo step
+  undo: () => void;
+  redo: () => void;
   setSeaLevel: (level: number) => void;   // <-- add
+  setOverlay: (kind: OverlayKind, visible: boolean) => void;
+  setMonth: (month: number) => void;      // month (0..11) behind the monthTemp/monthPrecip fields
+  setBiomeRules: (rules: BiomeRules) => void; // reclassify live; latest wins while the worker is busy
+  setStamps: (stamps: Stamp[]) => void;   // images the stamp brush can refer to by id
   dispose: () => void;
 };
 
@@ -24,7 +37,7 @@ export function createWorkerBridge(
   initialSize: number,
   opts: BridgeOpts = {}
 ): WorkerBridge {
-  const { onProgress, rafCoalesce = true } = opts;
+  const { onProgress, onFields, onHistory, rafCoalesce = true } = opts;
 
   const worker = new Worker(new URL("./worker.ts", import.meta.url), { type: "module" });
 
@@ -38,20 +51,54 @@ export function createWorkerBridge(
   let pendingResult: WorkerOut | null = null;
   let rafId: number | null = null;
 
+  let currentRules: BiomeRules = DEFAULT_BIOME_RULES;
+  let rulesInFlight = false;              // a "biomes" message awaits its result
+  let queuedRules: BiomeRules | null = null;
+
+  // Brush messages not sent yet, in order: one batch of dabs per brush, and
+  // the stroke ends between them. Dabs after a stroke end start a new batch,
+  // so they never join the undo step it closes.
+  const queuedBrush: ({ brush: Brush; dabs: Dab[] } | "strokeEnd")[] = [];
+  let brushInFlight = false;              // a "brush" message awaits its result
+  let brushRaf: number | null = null;
+
+  // Overlays are only rebuilt while visible
+  const overlayVisible: Record<OverlayKind, boolean> = {
+    biomes: false, mask: false, plates: false, wind: false, coast: false, koppen: false, monthTemp: false, monthPrecip: false, ice: false,
+  };
+  const overlayBuilders: Record<OverlayKind, (f: Fields) => Texture> = {
+    biomes: (f) => textureFromBiomes(f.biomes, simSize, currentRules.biomes.map((b) => b.color)),
+    mask: (f) => textureFromMask(f.mask, simSize),
+    plates: (f) => textureFromPlates(f.plates, simSize),
+    wind: () => textureFromWind(simSize, currentParams!),
+    coast: (f) => textureFromCoastDistance(f.coastDist, simSize),
+    koppen: (f) => textureFromKoppen(f.koppen, simSize),
+    monthTemp: (f) => textureFromMonthTemp(f.monthTemp, simSize),
+    monthPrecip: (f) => textureFromMonthPrecip(f.monthPrecip, simSize),
+    ice: (f) => textureFromIce(f.ice, simSize),
+  };
+
+  function paintOverlay(kind: OverlayKind, fields: Fields) {
+    if (overlayVisible[kind]) stage.setOverlayTexture(kind, overlayBuilders[kind](fields));
+  }
+
   function paintFrom(fields: NonNullable<typeof lastFields>) {
     const { terrainTex, riversTex } = terrainTextureFromFields(
       fields,
       simSize,
       currentSeed,
-      currentSeaLevel            // <-- use slider value
+      currentSeaLevel,           // <-- use slider value
+      currentParams?.wrap
     );
     stage.setTerrainTexture(terrainTex);
     stage.setRiversTexture(riversTex);
+    for (const kind of Object.keys(overlayVisible) as OverlayKind[]) paintOverlay(kind, fields);
   }
 
   function applyResult(msg: Extract<WorkerOut, { t: "result" }>) {
     lastFields = msg.fields;     // <-- cache latest fields
     paintFrom(lastFields);
+    onFields?.(lastFields);
   }
 
   function scheduleApply() {
@@ -78,9 +125,24 @@ export function createWorkerBridge(
       case "progress":
         onProgress?.(msg.phase, msg.pct);
         break;
+      case "history":
+        onHistory?.({ undo: msg.undo, redo: msg.redo });
+        break;
       case "result":
         pendingResult = msg;
         scheduleApply();
+        // Only the answer to a held-back message releases what queued behind it
+        if (msg.cause === "brush") {
+          brushInFlight = false;
+          if (queuedBrush.length) scheduleBrush();
+        } else if (msg.cause === "biomes") {
+          rulesInFlight = false;
+          if (queuedRules) {
+            const rules = queuedRules;
+            queuedRules = null;
+            api.setBiomeRules(rules);
+          }
+        }
         break;
     }
   };
@@ -89,6 +151,44 @@ export function createWorkerBridge(
     worker.postMessage(msg);
   }
 
+  // Send queued stroke ends, and the next batch of dabs if none is in flight:
+  // wrapped onto the grid, and without dabs that miss an unwrapped map entirely
+  function flushBrush() {
+    const wrap = currentParams?.wrap ?? "none";
+    const wrapAxis = (v: number) => ((v % simSize) + simSize) % simSize;
+    while (queuedBrush.length) {
+      const next = queuedBrush[0];
+      if (next === "strokeEnd") {
+        post({ t: "strokeEnd" });
+      } else {
+        if (brushInFlight) return;
+        const r = next.brush.radius;
+        const ry = currentParams ? r / rowSpacing(currentParams) : r;
+        const onMap = (v: number, reach: number) => v > -reach && v < simSize - 1 + reach;
+        const dabs = next.dabs
+          .map((d) => ({
+            ...d,
+            x: wrap !== "none" ? wrapAxis(d.x) : d.x,
+            y: wrap === "xy" ? wrapAxis(d.y) : d.y,
+          }))
+          .filter((d) => onMap(d.x, r) && onMap(d.y, ry));
+        if (dabs.length) {
+          post({ t: "brush", dabs, brush: next.brush });
+          brushInFlight = true;
+        }
+      }
+      queuedBrush.shift();
+    }
+  }
+
+  function scheduleBrush() {
+    if (brushRaf != null) return;
+    brushRaf = requestAnimationFrame(() => {
+      brushRaf = null;
+      flushBrush();
+    });
+  }
+
   const api: WorkerBridge = {
     worker,
     init(seed: number, params: SimParams) {
@@ -96,23 +196,63 @@ export function createWorkerBridge(
       currentParams = params;
       simSize = params.size;
       stage.setWorldSize(simSize);
+      stage.setWrap(params.wrap);
+      stage.setRowScale(rowSpacing(params));
       post({ t: "init", seed, params });
     },
     recompute(params: SimParams) {
       currentParams = params;
       simSize = params.size;
       stage.setWorldSize(simSize);
+      stage.setWrap(params.wrap);
+      stage.setRowScale(rowSpacing(params));
       post({ t: "recompute", params });
     },
-    brush(x: number, y: number, brush: Brush) {
-      // post({ t: "brush", x, y, brush });
+    brush(dabs: Dab[], brush: Brush) {
+      if (!lastFields) return; // nothing to paint on before the first result
+      // A brush change keeps what was painted with the old one as its own batch
+      const last = queuedBrush[queuedBrush.length - 1];
+      if (last && last !== "strokeEnd" && last.brush === brush) last.dabs.push(...dabs);
+      else queuedBrush.push({ brush, dabs: [...dabs] });
+      scheduleBrush();
+    },
+    endStroke() {
+      if (queuedBrush.length) queuedBrush.push("strokeEnd"); // goes out right after its dabs
+      else post({ t: "strokeEnd" });
+    },
+    undo() {
+      post({ t: "undo" });
+    },
+    redo() {
+      post({ t: "redo" });
     },
     setSeaLevel(level: number) {           // <-- new API
       currentSeaLevel = level;
       if (lastFields) paintFrom(lastFields); // re-shade only, no worker round-trip
     },
+    setOverlay(kind: OverlayKind, visible: boolean) {
+      overlayVisible[kind] = visible;
+      stage.setOverlayVisible(kind, visible);
+      if (visible && lastFields) paintOverlay(kind, lastFields);
+    },
+    setMonth(month: number) {
+      post({ t: "month", month });
+    },
+    setBiomeRules(rules: BiomeRules) {
+      currentRules = rules;
+      if (rulesInFlight) {
+        queuedRules = rules;
+        return;
+      }
+      rulesInFlight = lastFields != null; // before the first result the worker only stores them
+      post({ t: "biomes", rules });
+    },
+    setStamps(stamps: Stamp[]) {
+      post({ t: "stamps", stamps });
+    },
     dispose() {
       if (rafId != null) cancelAnimationFrame(rafId);
+      if (brushRaf != null) cancelAnimationFrame(brushRaf);
       pendingResult = null;
       worker.terminate();
     },
@@ -1,33 +1,104 @@
 // /src/state/store.ts
 import { create } from "zustand";
-import type { SimParams, Brush, Snapshot } from "../model/types";
+import type { SimParams, Brush, Snapshot, BiomeRules, Stamp } from "../model/types";
+import { DEFAULT_BIOME_RULES } from "../model/biomes";
+import type { OverlayKind } from "../pixi/stage";
+import type { HistoryItem } from "../sim/history";
 
 export type UIState = {
   seed: number;
   params: SimParams;
   brush: Brush;
   snapshots: Snapshot[];
+  overlays: Record<OverlayKind, boolean>;
+  month: number; // 0 = January … 11, for the monthly climate overlays
+  biomeRules: BiomeRules; // applied without regenerating terrain
+  history: { undo: HistoryItem[]; redo: HistoryItem[] }; // brush steps, mirrored from the worker
+  historyCommand: { op: "undo" | "redo"; seq: number } | null; // latest request, forwarded to the worker
+  stamps: Stamp[]; // imported stamp images, part of the project so stamp strokes replay
 
   // actions
   setParams: (p: Partial<SimParams>) => void;
   setBrush: (b: Partial<Brush>) => void;
   addSnapshot: (s: Snapshot) => void;
+  restoreSnapshot: (s: Snapshot) => void; // seed, params and stamp images; PixiCanvas forwards them
   setSeed: (seed: number) => void;
+  setOverlay: (kind: OverlayKind, visible: boolean) => void;
+  setMonth: (month: number) => void;
+  setBiomeRules: (rules: BiomeRules) => void;
+  setHistory: (history: UIState["history"]) => void;
+  undo: () => void;
+  redo: () => void;
+  addStamp: (stamp: Stamp) => void;
+  removeStamp: (id: string) => void;
 };
 
 export const useUIStore = create<UIState>((set) => ({
   seed: Date.now(),
   params: {
     size: 512,
-    noise: { octaves: 4, lacunarity: 2, gain: 0.5, warp: 0.1 },
-    climate: { seaLevel: 0.4, tempLapse: 0.5, moistureShift: 0 },
+    wrap: "none",
+    noise: {
+      kind: "value", fractal: "fbm",
+      octaves: 4, lacunarity: 2, gain: 0.5, warp: 0.1,
+      ridgeOffset: 1, ridgeSharpness: 2,
+    },
+    climate: {
+      seaLevel: 0.4, tempLapse: 0.5, moistureShift: 0, continentality: 0.5,
+      wind: { trade: 135, westerly: -45, polar: 135, reach: 0.5, orographic: 2 },
+    },
+    mask: { kind: "none", coverage: 0.7, falloff: 0.3, islands: 6 },
+    tectonics: { mode: "off", plates: 12, oceanicRatio: 0.55, upliftWidth: 0.04, upliftStrength: 0.35 },
+    thermal: { iterations: 0, talus: 2, rate: 0.5 },
+    bathymetry: { strength: 0.85, shelfWidth: 0.03, slopeWidth: 0.015, ridgeHeight: 0.35, trenchDepth: 0.3 },
+    glaciers: { iterations: 120, snowline: 0.3, accumulation: 1, flow: 0.5, carve: 0.5 },
+    erosion: { iterations: 0, inertia: 0.05, capacity: 4, deposition: 0.3, erosion: 0.3, evaporation: 0.02 },
+    hydrology: { rainfall: 1, loss: 0.5 },
+    incision: { rate: 0, width: 0.02, deltas: false },
+    planet: { mode: "flat", span: 180, hemisphere: "north", tilt: 23.4, baseTemp: 0 },
+    latitude: 0,
     riverThreshold: 0.01,
   },
-  brush: { kind: "raise", radius: 5, strength: 0.1 },
+  brush: {
+    kind: "raise", radius: 5, strength: 0.1,
+    falloff: { profile: "cosine", curve: [1, 0.95, 0.75, 0.45, 0.15, 0] },
+    spacing: 0.25,
+    flow: 1,
+    pen: { pressureRadius: false, pressureStrength: true, tiltRadius: false },
+    flatten: { mode: "both" },
+    terrace: { steps: 8, sharpness: 0.7 },
+    noise: { seed: 1, scale: 24, octaves: 4 },
+    plateau: { level: 0.6 },
+    slope: { ease: 0 },
+    stamp: { id: null, rotation: 0, scale: 0.2, blend: "add" },
+  },
   snapshots: [],
+  overlays: { biomes: false, mask: false, plates: false, wind: false, coast: false, koppen: false, monthTemp: false, monthPrecip: false, ice: false },
+  month: 0,
+  biomeRules: DEFAULT_BIOME_RULES,
+  history: { undo: [], redo: [] },
+  historyCommand: null,
+  stamps: [],
 
   setParams: (p) => set((s) => ({ params: { ...s.params, ...p } })),
   setBrush: (b) => set((s) => ({ brush: { ...s.brush, ...b } })),
   addSnapshot: (s) => set((s0) => ({ snapshots: [...s0.snapshots, s] })),
+  restoreSnapshot: (snap) => set((s) => ({
+    seed: snap.seed,
+    params: snap.params,
+    stamps: snap.stamps,
+    brush: snap.stamps.some((t) => t.id === s.brush.stamp.id) ? s.brush : { ...s.brush, stamp: { ...s.brush.stamp, id: null } },
+  })),
   setSeed: (seed) => set(() => ({ seed })),
+  setOverlay: (kind, visible) => set((s) => ({ overlays: { ...s.overlays, [kind]: visible } })),
+  setMonth: (month) => set(() => ({ month })),
+  setBiomeRules: (biomeRules) => set(() => ({ biomeRules })),
+  setHistory: (history) => set(() => ({ history })),
+  undo: () => set((s) => ({ historyCommand: { op: "undo", seq: (s.historyCommand?.seq ?? 0) + 1 } })),
+  redo: () => set((s) => ({ historyCommand: { op: "redo", seq: (s.historyCommand?.seq ?? 0) + 1 } })),
+  addStamp: (stamp) => set((s) => ({ stamps: s.stamps.some((t) => t.id === stamp.id) ? s.stamps : [...s.stamps, stamp] })),
+  removeStamp: (id) => set((s) => ({
+    stamps: s.stamps.filter((t) => t.id !== id),
+    brush: s.brush.stamp.id === id ? { ...s.brush, stamp: { ...s.brush.stamp, id: null } } : s.brush,
+  })),
 }));